@@ -7,6 +7,12 @@ import { pino } from 'pino';
 import assert from 'node:assert/strict';
 import { randomUUID } from 'node:crypto';
 import { once } from 'node:events';
+import { join, resolve as resolvePath } from 'node:path';
+import { existsSync } from 'node:fs';
+import { mkdtemp, mkdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { chdir } from 'node:process';
+import { setTimeout } from 'node:timers/promises';
 import { TypedEmitter } from 'tiny-typed-emitter';
 import { GamesManager, type Env as GamesManagerEnv } from './games.js';
 import {
@@ -32,6 +38,7 @@ import {
 	AutohostUpdateEventData,
 } from 'tachyon-protocol/types';
 import { scriptGameFromStartRequest } from './startScriptGen.js';
+import { TachyonError } from './tachyonTypes.js';
 import {
 	EvServerStarted,
 	EvServerQuit,
@@ -52,9 +59,15 @@ import {
 	ChatDestination,
 	LuaMsgScript,
 	LuaMsgUIMode,
+	serializeMessagePacket,
 } from './engineAutohostInterface.js';
-import { runEngine } from './engineRunner.js';
-import type { EngineVersionsManager, EngineVersionsManagerEvents } from './engineVersions.js';
+import { runEngine, EngineCrashError } from './engineRunner.js';
+import type { PlayerState } from './playerStates.js';
+import type {
+	EngineInstallState,
+	EngineVersionsManager,
+	EngineVersionsManagerEvents,
+} from './engineVersions.js';
 
 function createStartRequest(players: { name: string; userId: string }[]): AutohostStartRequestData {
 	return {
@@ -133,7 +146,15 @@ class EngineVersionsManagerFake
 	implements EngineVersionsManager
 {
 	public engineVersions: string[] = [];
+	public quarantinedEngines: Map<string, string> = new Map();
+	public installs: Map<string, EngineInstallState> = new Map();
 	public installEngine(_version: string): void {}
+	public acquireEngineVersion = mock.fn((_version: string) => mock.fn(() => {}));
+	public removeEngine(_version: string): Promise<void> {
+		return Promise.resolve();
+	}
+	public advertisedEngineAliases: string[] = [];
+	public resolveEngineVersion = mock.fn((version: string): string | undefined => version);
 	public close(): Promise<void> {
 		return Promise.resolve();
 	}
@@ -151,8 +172,38 @@ suite('Autohost', async () => {
 				hostingIP: '127.0.0.1',
 				engineBindIP: '0.0.0.0',
 				engineSettings: {},
+				contentRoots: [],
+				contentDir: 'content',
+				contentStoreDir: null,
+				contentMirrorUrl: null,
+				engineOutputLogLevel: 'silent',
+				engineOutputTailLines: 100,
+				engineLogMaxSizeMB: 10,
+				engineLogMaxFiles: 1,
+				crashReportLines: 50,
+				engineShutdownGraceSeconds: 10,
+				engineSigtermTimeoutSeconds: 20,
+				engineWatchdogSilenceSeconds: null,
+				engineWatchdogCheckCpu: true,
+				resourceSamplingIntervalSeconds: null,
+				engineCgroupParent: null,
+				engineMemoryLimitMB: null,
+				engineCpuLimit: null,
+				enginePidsLimit: null,
+				engineSandbox: 'none',
+				engineSandboxCommand: 'unshare',
+				engineSandboxHiddenPaths: [],
+				battleArtifactsArchive: false,
 				maxUpdatesSubscriptionAgeSeconds: 10 * 60,
+				engineStartupTimeoutSeconds: 60,
 				maxGameDurationSeconds: 8 * 60 * 60,
+				maxGameDurationWarningsSeconds: [],
+				gameDurationOverrideOption: null,
+				gameDurationOverrideMinSeconds: 60 * 60,
+				gameDurationOverrideMaxSeconds: 24 * 60 * 60,
+				idleKillNoJoinSeconds: null,
+				idleKillAllPlayersLeftSeconds: null,
+				idleKillGameOverSeconds: null,
 			},
 			mocks: { runEngine: runEngineMock ?? fakeRunEngine },
 		};
@@ -249,6 +300,7 @@ suite('Autohost', async () => {
 		const gm = new GamesManager(env);
 		const evm = new EngineVersionsManagerFake();
 		evm.engineVersions = ['1.0', '2.0'];
+		evm.advertisedEngineAliases = ['stable'];
 		const ah = new Autohost(env, gm, evm);
 		const ts = {
 			update: async () => {},
@@ -256,7 +308,11 @@ suite('Autohost', async () => {
 		};
 		ah.connected(ts);
 		assert.equal(ts.status.mock.callCount(), 1);
-		assert.deepEqual(ts.status.mock.calls[0].arguments[0].availableEngines, ['1.0', '2.0']);
+		assert.deepEqual(ts.status.mock.calls[0].arguments[0].availableEngines, [
+			'1.0',
+			'2.0',
+			'stable',
+		]);
 	});
 
 	await test('tachyon install engine', async () => {
@@ -287,6 +343,403 @@ suite('Autohost', async () => {
 		ah.disconnected();
 	});
 
+	await test('battle pins engine version', async () => {
+		const er = new EngineRunnerFake();
+		const env = getEnv(() => er);
+		const evm = new EngineVersionsManagerFake();
+		const gm = new GamesManager(env, { engineVersions: evm });
+		const ah = new Autohost(env, gm, evm);
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		await ah.start(req);
+		assert.equal(evm.acquireEngineVersion.mock.callCount(), 1);
+		assert.deepEqual(evm.acquireEngineVersion.mock.calls[0].arguments, ['test']);
+		const release = evm.acquireEngineVersion.mock.calls[0].result!;
+		assert.equal(release.mock.callCount(), 0);
+
+		await ah.kill({ battleId: req.battleId });
+		await once(gm, 'exit');
+		assert.equal(release.mock.callCount(), 1);
+	});
+
+	await test('battle starts resolved engine version alias', async () => {
+		const er = new EngineRunnerFake();
+		const runEngineMock = mock.fn<typeof runEngine>(() => er);
+		const env = getEnv(runEngineMock);
+		const evm = new EngineVersionsManagerFake();
+		evm.resolveEngineVersion.mock.mockImplementation((version) =>
+			version === 'stable' ? '2.0' : undefined,
+		);
+		const gm = new GamesManager(env, { engineVersions: evm });
+		const ah = new Autohost(env, gm, evm);
+
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		req.engineVersion = 'stable';
+		await ah.start(req);
+		assert.equal(runEngineMock.mock.calls[0].arguments[1].startRequest.engineVersion, '2.0');
+		assert.equal(runEngineMock.mock.calls[0].arguments[1].requestedEngineVersion, 'stable');
+		assert.deepEqual(evm.acquireEngineVersion.mock.calls[0].arguments, ['2.0']);
+
+		const req2 = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		req2.engineVersion = 'beta';
+		await assert.rejects(ah.start(req2), {
+			name: 'TachyonError',
+			reason: 'engine_version_not_available',
+		});
+	});
+
+	await test('battle start fails when content is not available', async () => {
+		const env = getEnv();
+		const content = {
+			ensureContent: mock.fn(async (): Promise<void> => {
+				throw new TachyonError<'autohost/start'>('invalid_request', 'map not available');
+			}),
+		};
+		const gm = new GamesManager(env, { content });
+		const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		await assert.rejects(ah.start(req), { name: 'TachyonError', reason: 'invalid_request' });
+
+		// The same battle can be retried once the content is available.
+		content.ensureContent.mock.mockImplementation(async () => {});
+		await ah.start(req);
+	});
+
+	await test('battle pins engine version while fetching content', async () => {
+		const env = getEnv();
+		const evm = new EngineVersionsManagerFake();
+		const content = {
+			ensureContent: mock.fn(async (): Promise<void> => {
+				assert.equal(evm.acquireEngineVersion.mock.callCount(), 1);
+				const release = evm.acquireEngineVersion.mock.calls[0].result!;
+				assert.equal(release.mock.callCount(), 0);
+				throw new TachyonError<'autohost/start'>('invalid_request', 'map not available');
+			}),
+		};
+		const gm = new GamesManager(env, { engineVersions: evm, content });
+		const ah = new Autohost(env, gm, evm);
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		await assert.rejects(ah.start(req), { name: 'TachyonError', reason: 'invalid_request' });
+		assert.equal(content.ensureContent.mock.callCount(), 1);
+		const release = evm.acquireEngineVersion.mock.calls[0].result!;
+		assert.equal(release.mock.callCount(), 1);
+	});
+
+	await test('battle outcome is recorded for instance retention', async () => {
+		const er = new EngineRunnerFake();
+		const env = getEnv(() => er);
+		const instances = {
+			battleStarted: mock.fn((_battleId: string) => {}),
+			battleFinished: mock.fn(async (_battleId: string, _crashed: boolean) => {}),
+		};
+		const gm = new GamesManager(env, { instances });
+		const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		await ah.start(req);
+		assert.deepEqual(instances.battleStarted.mock.calls[0].arguments, [req.battleId]);
+
+		// The outcome is recorded only after all writes to the instance
+		// directory finished, as the retention policy might remove it.
+		const write = Promise.withResolvers<void>();
+		gm.on('exit', (_battleId, _info, holdInstance) => holdInstance(write.promise));
+		er.emit('error', new Error('engine crashed'));
+		er.close();
+		await once(gm, 'exit');
+		await setTimeout(0);
+		assert.equal(instances.battleFinished.mock.callCount(), 0);
+		write.resolve();
+		await setTimeout(0);
+		assert.deepEqual(instances.battleFinished.mock.calls[0].arguments, [req.battleId, true]);
+	});
+
+	await test('demo is exported after battle exits', async () => {
+		const er = new EngineRunnerFake();
+		const env = getEnv(() => er);
+		const demoExporter = {
+			demoRecording: mock.fn(async (_battleId: string, _demoPath: string) => {}),
+			exportDemo: mock.fn(async (_battleId: string, _demoPath: string) => true),
+			crashLogsPending: mock.fn(async (_battleId: string) => {}),
+			exportCrashLogs: mock.fn(async (_battleId: string) => true),
+		};
+		const gm = new GamesManager(env, { demoExporter });
+		const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		await ah.start(req);
+
+		er.emit('packet', {
+			type: EventType.SERVER_STARTPLAYING,
+			gameId: 'gameid',
+			demoPath: 'demos/test.sdfz',
+		});
+		const demoPath = resolvePath('instances', req.battleId, 'demos/test.sdfz');
+		assert.deepEqual(demoExporter.demoRecording.mock.calls[0].arguments, [
+			req.battleId,
+			demoPath,
+		]);
+		assert.equal(demoExporter.exportDemo.mock.callCount(), 0);
+
+		er.close();
+		await once(gm, 'exit');
+		assert.deepEqual(demoExporter.exportDemo.mock.calls[0].arguments, [req.battleId, demoPath]);
+		assert.equal(demoExporter.crashLogsPending.mock.callCount(), 0);
+	});
+
+	await test('crash logs are exported after battle crashes', async () => {
+		const er = new EngineRunnerFake();
+		const env = getEnv(() => er);
+		const pending = Promise.withResolvers<void>();
+		const demoExporter = {
+			demoRecording: mock.fn(async (_battleId: string, _demoPath: string) => {}),
+			exportDemo: mock.fn(async (_battleId: string, _demoPath: string) => true),
+			crashLogsPending: mock.fn((_battleId: string) => pending.promise),
+			exportCrashLogs: mock.fn(async (_battleId: string) => true),
+		};
+		const instances = {
+			battleStarted: mock.fn((_battleId: string) => {}),
+			battleFinished: mock.fn(async (_battleId: string, _crashed: boolean) => {}),
+		};
+		const gm = new GamesManager(env, { demoExporter, instances });
+		const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		await ah.start(req);
+
+		er.emit('error', new Error('engine crashed'));
+		er.close();
+		await once(gm, 'exit');
+		assert.deepEqual(demoExporter.crashLogsPending.mock.calls[0].arguments, [req.battleId]);
+		// The logs are flagged before the retention policy is applied.
+		await setTimeout(0);
+		assert.equal(instances.battleFinished.mock.callCount(), 0);
+		assert.equal(demoExporter.exportCrashLogs.mock.callCount(), 0);
+		pending.resolve();
+		await setTimeout(0);
+		assert.equal(instances.battleFinished.mock.callCount(), 1);
+		assert.deepEqual(demoExporter.exportCrashLogs.mock.calls[0].arguments, [req.battleId]);
+	});
+
+	await test('battle summary is written on exit', async () => {
+		const origCwd = process.cwd();
+		const testDir = await mkdtemp(join(tmpdir(), 'autohost-test-'));
+		chdir(testDir);
+		try {
+			const user1 = randomUUID();
+			const user2 = randomUUID();
+			const req = createStartRequest([
+				{ name: 'user1', userId: user1 },
+				{ name: 'user2', userId: user2 },
+			]);
+			await mkdir(join('instances', req.battleId), { recursive: true });
+			const er = new EngineRunnerFake();
+			const env = getEnv(() => er);
+			const gm = new GamesManager(env);
+			const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+			await ah.start(req);
+
+			er.emit('packet', { type: EventType.PLAYER_JOINED, player: 1, name: 'user2' });
+			er.emit('packet', { type: EventType.PLAYER_READY, player: 1, state: ReadyState.READY });
+			er.emit('packet', {
+				type: EventType.SERVER_STARTPLAYING,
+				gameId: 'gameid',
+				demoPath: 'demos/test.sdfz',
+			});
+			er.emit('packet', { type: EventType.PLAYER_DEFEATED, player: 1 });
+			er.emit('packet', {
+				type: EventType.PLAYER_LEFT,
+				player: 1,
+				reason: LeaveReason.LOST_CONNECTION,
+			});
+			er.emit('packet', { type: EventType.PLAYER_JOINED, player: 1, name: 'user2' });
+
+			const states = ah.getPlayerStates(req.battleId)!;
+			assert.equal(states[1].connected, true);
+			assert.equal(states[1].reconnects, 1);
+			assert.deepEqual(ah.getPlayerStates(req.battleId, new Date(0)), []);
+			assert.deepEqual(
+				ah.getPlayerStates(req.battleId, new Date())?.map((s) => s.userId),
+				[user2],
+			);
+
+			er.emit('packet', {
+				type: EventType.SERVER_GAMEOVER,
+				player: 0,
+				winningAllyTeams: [0],
+			});
+			const exited = once(gm, 'exit');
+			await ah.kill({ battleId: req.battleId });
+			await exited;
+
+			const summaryPath = join('instances', req.battleId, 'summary.json');
+			for (let i = 0; i < 100 && !existsSync(summaryPath); ++i) {
+				await setTimeout(10);
+			}
+			const summary = JSON.parse(await readFile(summaryPath, 'utf-8'));
+			assert.equal(summary.battleId, req.battleId);
+			assert.equal(summary.engineVersion, 'test');
+			assert.equal(summary.mapName, 'map v1');
+			assert.equal(summary.exitReason, 'killed');
+			assert.equal(summary.demo, 'demos/test.sdfz');
+			assert.deepEqual(summary.winningAllyTeams, [0]);
+			assert.deepEqual(
+				summary.players.map((p: PlayerState) => [p.userId, p.playerNumber, p.spectator]),
+				[
+					[user1, 0, false],
+					[user2, 1, false],
+				],
+			);
+			const player2: PlayerState = summary.players[1];
+			assert.equal(player2.ready, 'ready');
+			assert.ok(player2.defeatedAt);
+			assert.equal(player2.reconnects, 1);
+			assert.deepEqual(
+				player2.sessions.map((s) => s.leaveReason),
+				['lost_connection', null],
+			);
+			assert.equal(summary.players[0].sessions.length, 0);
+			assert.deepEqual(
+				summary.timeline.map(({ time: _, ...entry }: { time: string }) => entry),
+				[
+					{ type: 'joined', userId: user2, playerNumber: 1 },
+					{ type: 'defeated', userId: user2, playerNumber: 1 },
+					{ type: 'left', userId: user2, playerNumber: 1, reason: 'lost_connection' },
+					{ type: 'joined', userId: user2, playerNumber: 1 },
+				],
+			);
+			assert.ok(summary.gameStartedAt);
+		} finally {
+			chdir(origCwd);
+			await rm(testDir, { recursive: true });
+		}
+	});
+
+	await test('battle state follows engine events', async () => {
+		const er = new EngineRunnerFake();
+		const env = getEnv(() => er);
+		const gm = new GamesManager(env);
+		const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+		const states: string[] = [];
+		gm.on('state', (_battleId, change) => states.push(change.to));
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		await ah.start(req);
+		assert.equal(gm.getBattleState(req.battleId), 'lobby');
+
+		// Game over before game start is illegal and ignored.
+		er.emit('packet', { type: EventType.SERVER_GAMEOVER, player: 0, winningAllyTeams: [] });
+		assert.equal(gm.getBattleState(req.battleId), 'lobby');
+		er.emit('packet', {
+			type: EventType.SERVER_STARTPLAYING,
+			gameId: 'gameid',
+			demoPath: 'demos/test.sdfz',
+		});
+		er.emit('packet', { type: EventType.SERVER_GAMEOVER, player: 0, winningAllyTeams: [0] });
+		er.emit('packet', { type: EventType.SERVER_QUIT });
+
+		const exited = once(gm, 'exit');
+		er.close();
+		await exited;
+		assert.deepEqual(states, ['lobby', 'playing', 'game_over', 'quitting', 'exited']);
+		assert.equal(gm.getBattleState(req.battleId), undefined);
+	});
+
+	await test('start fails on engine startup timeout', async (t) => {
+		t.mock.timers.enable({ apis: ['setTimeout'] });
+		// The first engine never starts.
+		let engines = 0;
+		const env = getEnv(() => new EngineRunnerFake(engines++ > 0));
+		env.config.engineStartupTimeoutSeconds = 30;
+		const gm = new GamesManager(env);
+		const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		const startRes = ah.start(req);
+		await new Promise((resolve) => setImmediate(resolve));
+		t.mock.timers.tick(30_000);
+		await assert.rejects(startRes, {
+			name: 'EngineStartupTimeoutError',
+			reason: 'internal_error',
+		});
+		assert.equal(gm.capacity.currentBattles, 0);
+
+		// The battle id is free to be used again.
+		await ah.start(req);
+		assert.equal(gm.capacity.currentBattles, 1);
+	});
+
+	await test('kill during startup is not reported as battle exit', async (t) => {
+		const er = new EngineRunnerFake(false);
+		const env = getEnv(() => er);
+		const gm = new GamesManager(env);
+		const exits = t.mock.fn();
+		gm.on('exit', exits);
+		const warnings = t.mock.fn();
+		gm.on('warning', warnings);
+		const capacities: number[] = [];
+		gm.on('capacity', (c) => capacities.push(c.currentBattles));
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		const startRes = gm.start(req);
+		await new Promise((resolve) => setImmediate(resolve));
+		er.emit('warning', 'engine slow');
+		gm.killGame(req.battleId);
+		await assert.rejects(startRes, {
+			name: 'EngineExitedDuringStartupError',
+			reason: 'internal_error',
+		});
+		assert.equal(exits.mock.callCount(), 0);
+		assert.equal(warnings.mock.callCount(), 0);
+		assert.deepEqual(capacities, []);
+		assert.equal(gm.capacity.currentBattles, 0);
+	});
+
+	await test('start fails on engine error during startup', async (t) => {
+		let engines = 0;
+		const env = getEnv(() => {
+			const er = new EngineRunnerFake(engines++ > 0);
+			if (engines == 1) setImmediate(() => er.emit('error', new Error('engine crashed')));
+			return er;
+		});
+		const gm = new GamesManager(env);
+		const errors = t.mock.fn();
+		gm.on('error', errors);
+		const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		await assert.rejects(ah.start(req), /engine crashed/);
+		assert.equal(errors.mock.callCount(), 0);
+
+		// The battle id is free to be used again.
+		await ah.start(req);
+		assert.equal(gm.capacity.currentBattles, 1);
+	});
+
+	await test('engine resource usage is sampled', async (t) => {
+		t.mock.timers.enable({ apis: ['setInterval'] });
+		const er = new EngineRunnerFake();
+		er.pid = 1234;
+		const env = getEnv(() => er);
+		env.config.resourceSamplingIntervalSeconds = 30;
+		let cpuSeconds = 0;
+		const readProcResourceUsage = t.mock.fn(async (_pid: number) => ({
+			cpuSeconds: (cpuSeconds += 10),
+			rssBytes: 1024,
+			threads: 4,
+			ioReadBytes: null,
+			ioWriteBytes: null,
+		}));
+		env.mocks!.readProcResourceUsage = readProcResourceUsage;
+		const gm = new GamesManager(env);
+		const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		await ah.start(req);
+		t.mock.timers.tick(60_000);
+		await setTimeout(0);
+		assert.equal(readProcResourceUsage.mock.callCount(), 3);
+		assert.equal(readProcResourceUsage.mock.calls[0].arguments[0], 1234);
+		assert.equal(gm.getResourceUsage(req.battleId)?.length, 3);
+
+		const exited = once(gm, 'exit');
+		await ah.kill({ battleId: req.battleId });
+		const [, info] = await exited;
+		assert.equal(info.resourceUsage.samples, 3);
+		assert.equal(info.resourceUsage.cpuSeconds, 30);
+		assert.deepEqual(info.resourceUsage.threads, { peak: 4, average: 4 });
+	});
+
 	await test('kill', async () => {
 		const er = new EngineRunnerFake();
 		const env = getEnv(() => er);
@@ -313,6 +766,79 @@ suite('Autohost', async () => {
 		assert.equal(er.close.mock.callCount(), 1);
 	});
 
+	await test('timeout kill warns players', async (t) => {
+		t.mock.timers.enable({ apis: ['setTimeout'] });
+		const er = new EngineRunnerFake();
+		const env = getEnv(() => er);
+		env.config.maxGameDurationSeconds = 600;
+		env.config.maxGameDurationWarningsSeconds = [900, 300, 30];
+		const gm = new GamesManager(env);
+		const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		await ah.start(req);
+		t.mock.timers.tick(299_999);
+		assert.equal(er.sendPacket.mock.callCount(), 0);
+		t.mock.timers.tick(1);
+		t.mock.timers.tick(270_000);
+		assert.deepEqual(
+			er.sendPacket.mock.calls.map((c) => (c.arguments as unknown[])[0]),
+			[
+				serializeMessagePacket(
+					'The game will be terminated in 5 minutes due to max game duration.',
+				),
+				serializeMessagePacket(
+					'The game will be terminated in 30 seconds due to max game duration.',
+				),
+			],
+		);
+		assert.equal(er.close.mock.callCount(), 0);
+		t.mock.timers.tick(30_000);
+		assert.equal(er.close.mock.callCount(), 1);
+	});
+
+	await test('timeout kill duration override from game options', async (t) => {
+		t.mock.timers.enable({ apis: ['setTimeout'] });
+		const env = getEnv();
+		env.config.maxGameDurationSeconds = 100;
+		env.config.gameDurationOverrideOption = 'max_duration';
+		env.config.gameDurationOverrideMinSeconds = 50;
+		env.config.gameDurationOverrideMaxSeconds = 1000;
+		for (const [value, expected] of [
+			['200', 200],
+			['10', 50],
+			['5000', 1000],
+			['forever', 100],
+		] as const) {
+			const er = new EngineRunnerFake();
+			env.mocks!.runEngine = () => er;
+			const gm = new GamesManager(env);
+			const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+			const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+			req.gameOptions = { max_duration: value };
+			await ah.start(req);
+			t.mock.timers.tick(expected * 1000 - 1);
+			assert.equal(er.close.mock.callCount(), 0, `override ${value}`);
+			t.mock.timers.tick(1);
+			assert.equal(er.close.mock.callCount(), 1, `override ${value}`);
+		}
+	});
+
+	await test('idle battle is killed', async (t) => {
+		t.mock.timers.enable({ apis: ['setTimeout'] });
+		const er = new EngineRunnerFake();
+		const env = getEnv(() => er);
+		env.config.idleKillNoJoinSeconds = 60;
+		const gm = new GamesManager(env);
+		const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		await ah.start(req);
+		const exited = once(gm, 'exit');
+		t.mock.timers.tick(60_000);
+		assert.equal(er.close.mock.callCount(), 1);
+		const [, info] = await exited;
+		assert.equal(info.reason, 'idle');
+	});
+
 	await test('kill battle not found', async () => {
 		const env = getEnv();
 		const gm = new GamesManager(env);
@@ -437,6 +963,10 @@ suite('Autohost', async () => {
 		assert.equal(er.sendPacket.mock.callCount(), 2);
 		assert.deepEqual(er.sendPacket.mock.calls[0].arguments, [Buffer.from('/spec user2')]);
 		assert.deepEqual(er.sendPacket.mock.calls[1].arguments, [Buffer.from('/spec user3')]);
+		assert.deepEqual(
+			ah.getPlayerStates(req.battleId)?.map((p) => p.spectator),
+			[false, true, true],
+		);
 	});
 
 	await test('specPlayers all or none', async () => {
@@ -477,6 +1007,13 @@ suite('Autohost', async () => {
 		assert.deepEqual(er.sendPacket.mock.calls[0].arguments, [
 			Buffer.from('/adduser user2 pass123 1'),
 		]);
+		assert.deepEqual(
+			ah.getPlayerStates(req.battleId)?.map((p) => [p.userId, p.playerNumber, p.spectator]),
+			[
+				[req.allyTeams[0].teams[0].players![0].userId, 0, false],
+				['10', 1, true],
+			],
+		);
 	});
 
 	await test('addPlayer change password', async () => {
@@ -639,6 +1176,32 @@ suite('Autohost', async () => {
 
 		ah.disconnected();
 	});
+
+	await test('engine crash update contains crash details', async () => {
+		const er = new EngineRunnerFake();
+		const env = getEnv(() => er);
+		const gm = new GamesManager(env);
+		const ah = new Autohost(env, gm, new EngineVersionsManagerFake());
+		const ts = {
+			update: mock.fn(async (_u: AutohostUpdateEventData) => {}),
+			status: async () => {},
+		};
+		ah.connected(ts);
+		const req = createStartRequest([{ name: 'user1', userId: randomUUID() }]);
+		await ah.start(req);
+		await ah.subscribeUpdates({ since: Date.now() * 1000 });
+
+		er.emit('error', new EngineCrashError('Engine exited', 'Engine exited\nError: boom'));
+		er.close();
+		await once(gm, 'exit');
+
+		assert.equal(ts.update.mock.callCount(), 1);
+		assert.deepEqual(ts.update.mock.calls[0].arguments[0].update, {
+			type: 'engine_crash',
+			details: 'Engine exited\nError: boom',
+		});
+		ah.disconnected();
+	});
 });
 
 suite('engine event to tachyon event translation', async () => {
@@ -37,8 +37,16 @@ import {
 	LuaMsgScript,
 } from './engineAutohostInterface.js';
 import type { GamesManager } from './games.js';
+import {
+	BattleSummaryRecorder,
+	writeBattleArtifacts,
+	type Env as BattleSummaryEnv,
+} from './battleSummary.js';
+import { BattleIdleMonitor, type IdleKillReason, type Env as IdleKillEnv } from './idleKill.js';
+import { EngineCrashError } from './engineRunner.js';
 import type { EngineVersionsManager } from './engineVersions.js';
 import { MultiIndex } from './multiIndex.js';
+import { BattlePlayerStates, type PlayerState } from './playerStates.js';
 import { EventsBuffer, EventsBufferError } from './eventsBuffer.js';
 import { Environment } from './environment.js';
 
@@ -69,7 +77,7 @@ interface Config {
 	maxUpdatesSubscriptionAgeSeconds: number;
 }
 
-export type Env = Environment<Config>;
+export type Env = Environment<Config> & BattleSummaryEnv & IdleKillEnv;
 
 /**
  * Autohost implements the functionality as required by tachyon protocol and uses
@@ -86,6 +94,10 @@ export class Autohost implements TachyonAutohost {
 	private server?: TachyonServer;
 	// battleId -> (userId <-> playerNumber <-> name).
 	private battlePlayers: Map<string, MultiIndex<PlayerIds>> = new Map();
+	private battlePlayerStates: Map<string, BattlePlayerStates> = new Map();
+	// battleId -> summary recorded until the battle exits.
+	private battleSummaries: Map<string, BattleSummaryRecorder> = new Map();
+	private battleIdleMonitors: Map<string, BattleIdleMonitor> = new Map();
 	// finishedBattles represents battles for which we have already published `engine_quit`
 	// or `engine_crash` updates but we didn't get the `exit` event for yet. This is to make
 	// sure we are only publishing a single event of this type.
@@ -98,7 +110,7 @@ export class Autohost implements TachyonAutohost {
 	public logger: Env['logger'];
 
 	constructor(
-		env: Env,
+		private env: Env,
 		private gamesMgr: GamesManager,
 		private engineVersionsMgr: EngineVersionsManager,
 	) {
@@ -108,12 +120,19 @@ export class Autohost implements TachyonAutohost {
 		);
 
 		this.currentStatus = {
-			availableEngines: Array.from(engineVersionsMgr.engineVersions),
+			availableEngines: [
+				...engineVersionsMgr.engineVersions,
+				...engineVersionsMgr.advertisedEngineAliases,
+			],
 			...this.gamesMgr.capacity,
 		};
 
 		this.engineVersionsMgr.on('versions', (versions) => {
-			this.currentStatus = { ...this.currentStatus, availableEngines: Array.from(versions) };
+			// Aliases resolve to the available versions so they change together.
+			this.currentStatus = {
+				...this.currentStatus,
+				availableEngines: [...versions, ...this.engineVersionsMgr.advertisedEngineAliases],
+			};
 
 			if (this.server) this.server.status(this.currentStatus).catch(() => null);
 		});
@@ -122,13 +141,32 @@ export class Autohost implements TachyonAutohost {
 			if (!this.finishedBattles.has(battleId)) {
 				this.eventsBuffer.push({
 					battleId,
-					update: { type: 'engine_crash', details: err.message },
+					update: {
+						type: 'engine_crash',
+						details: err instanceof EngineCrashError ? err.details : err.message,
+					},
 				});
 				this.finishedBattles.add(battleId);
 			}
 		});
 
-		this.gamesMgr.on('exit', (battleId) => {
+		this.gamesMgr.on('warning', (battleId, message) => {
+			this.eventsBuffer.push({ battleId, update: { type: 'engine_warning', message } });
+		});
+
+		this.gamesMgr.on('exit', (battleId, info, holdInstance) => {
+			const summary = this.battleSummaries.get(battleId)?.finish(info);
+			this.battleSummaries.delete(battleId);
+			this.battleIdleMonitors.get(battleId)?.close();
+			this.battleIdleMonitors.delete(battleId);
+			this.battlePlayerStates.delete(battleId);
+			if (summary) {
+				holdInstance(
+					writeBattleArtifacts(this.env, summary).catch((err) =>
+						this.logger.error({ battleId, err }, 'failed to write battle artifacts'),
+					),
+				);
+			}
 			this.battlePlayers.delete(battleId);
 			if (!this.finishedBattles.has(battleId)) {
 				this.logger.warn(
@@ -156,10 +194,28 @@ export class Autohost implements TachyonAutohost {
 			name: '',
 			playerNumber: 0,
 		});
-		for (const playerIds of _getPlayerIds(req)) {
-			players.set(playerIds);
+		const states = new BattlePlayerStates();
+		const playerIds = _getPlayerIds(req);
+		// Spectators are always listed after all the players.
+		const firstSpectator = playerIds.length - (req.spectators?.length ?? 0);
+		for (const ids of playerIds) {
+			players.set(ids);
+			states.addPlayer(ids, ids.playerNumber >= firstSpectator);
 		}
 		this.battlePlayers.set(req.battleId, players);
+		this.battlePlayerStates.set(req.battleId, states);
+		this.battleSummaries.set(
+			req.battleId,
+			new BattleSummaryRecorder(req, () => states.getStates()),
+		);
+		this.battleIdleMonitors.set(
+			req.battleId,
+			new BattleIdleMonitor(
+				this.env,
+				() => states.getStates(),
+				(reason, message) => this.killIdleBattle(req.battleId, reason, message),
+			),
+		);
 
 		return { ips: [ip], port };
 	}
@@ -185,11 +241,13 @@ export class Autohost implements TachyonAutohost {
 		}
 		const args = [req.name, req.password];
 		if (!playerId) {
-			players.set({
+			const ids = {
 				name: req.name,
 				userId: req.userId,
 				playerNumber: players.size,
-			});
+			};
+			players.set(ids);
+			this.battlePlayerStates.get(req.battleId)?.addPlayer(ids, true);
 			args.push(boolToStr(true));
 		}
 		const command = serializeCommandPacket('adduser', args);
@@ -200,6 +258,7 @@ export class Autohost implements TachyonAutohost {
 			// If it was new player, drop him.
 			if (!playerId) {
 				players.delete('userId', req.userId);
+				this.battlePlayerStates.get(req.battleId)?.removePlayer(req.userId);
 			}
 			throw err;
 		}
@@ -222,9 +281,11 @@ export class Autohost implements TachyonAutohost {
 	}
 
 	async specPlayers(req: AutohostSpecPlayersRequestData): Promise<void> {
-		for (const p of req.userIds.map((userId) => this.getPlayerName(req.battleId, userId))) {
+		const names = req.userIds.map((userId) => this.getPlayerName(req.battleId, userId));
+		for (const [i, p] of names.entries()) {
 			const command = serializeCommandPacket('spec', [p]);
 			await this.gamesMgr.sendPacket(req.battleId, command);
+			this.battlePlayerStates.get(req.battleId)?.setSpectator(req.userIds[i]);
 		}
 	}
 
@@ -279,6 +340,17 @@ export class Autohost implements TachyonAutohost {
 		this.engineVersionsMgr.installEngine(req.version);
 	}
 
+	/**
+	 * Get the current state of players in the running battle.
+	 *
+	 * @param connectedAt When set, only players connected at that time are
+	 *     returned.
+	 * @returns States or undefined if the battle is not running.
+	 */
+	getPlayerStates(battleId: string, connectedAt?: Date): PlayerState[] | undefined {
+		return this.battlePlayerStates.get(battleId)?.getStates(connectedAt);
+	}
+
 	connected(server: TachyonServer): void {
 		this.server = server;
 		server.status(this.currentStatus).catch(() => null);
@@ -301,7 +373,23 @@ export class Autohost implements TachyonAutohost {
 		return playerId.name;
 	}
 
+	private killIdleBattle(battleId: string, reason: IdleKillReason, message: string) {
+		this.logger.warn({ battleId, reason }, `killing idle battle: ${message}`);
+		this.eventsBuffer.push({
+			battleId,
+			update: { type: 'engine_warning', message: `killing idle battle: ${message}` },
+		});
+		try {
+			this.gamesMgr.killGame(battleId, 'idle');
+		} catch (err) {
+			this.logger.error({ battleId, err }, 'failed to kill idle battle');
+		}
+	}
+
 	private handlePacket(battleId: string, ev: Event) {
+		if (ev.type === EventType.PLAYER_READY) {
+			this.battlePlayerStates.get(battleId)?.playerReady(ev.player, ev.state);
+		}
 		try {
 			const update = engineEventToTachyonUpdate(ev, (playerNumber) => {
 				const userId = this.battlePlayers
@@ -317,6 +405,9 @@ export class Autohost implements TachyonAutohost {
 					this.finishedBattles.add(battleId);
 				}
 				this.eventsBuffer.push({ battleId, update });
+				this.battlePlayerStates.get(battleId)?.handleUpdate(update);
+				this.battleSummaries.get(battleId)?.handleUpdate(update);
+				this.battleIdleMonitors.get(battleId)?.handleUpdate(update);
 			}
 		} catch (err) {
 			this.logger.error(
@@ -0,0 +1,60 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BattleStateMachine, type BattleStateChange } from './battleState.js';
+
+test('follows full battle lifecycle', (t) => {
+	t.mock.timers.enable({ apis: ['Date'] });
+	const changes: BattleStateChange[] = [];
+	const sm = new BattleStateMachine((change) => changes.push(change));
+	assert.equal(sm.state, 'starting');
+
+	for (const [time, state] of [
+		[1000, 'lobby'],
+		[2000, 'playing'],
+		[3000, 'game_over'],
+		[4000, 'quitting'],
+		[5000, 'exited'],
+	] as const) {
+		t.mock.timers.setTime(time);
+		sm.transition(state);
+		assert.equal(sm.state, state);
+		assert.deepEqual(sm.since, new Date(time));
+	}
+	assert.deepEqual(
+		changes.map((c) => [c.from, c.to, c.time.getTime()]),
+		[
+			['starting', 'lobby', 1000],
+			['lobby', 'playing', 2000],
+			['playing', 'game_over', 3000],
+			['game_over', 'quitting', 4000],
+			['quitting', 'exited', 5000],
+		],
+	);
+});
+
+test('ignores transition to current state', () => {
+	const changes: BattleStateChange[] = [];
+	const sm = new BattleStateMachine((change) => changes.push(change));
+	sm.transition('lobby');
+	sm.transition('lobby');
+	assert.equal(changes.length, 1);
+});
+
+test('rejects illegal transitions', () => {
+	const changes: BattleStateChange[] = [];
+	const sm = new BattleStateMachine((change) => changes.push(change));
+	sm.transition('lobby');
+	assert.throws(() => sm.transition('game_over'), {
+		name: 'BattleStateError',
+		from: 'lobby',
+		to: 'game_over',
+	});
+	assert.equal(sm.state, 'lobby');
+	sm.transition('exited');
+	assert.throws(() => sm.transition('lobby'), { name: 'BattleStateError' });
+	assert.equal(changes.length, 2);
+});
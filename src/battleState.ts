@@ -0,0 +1,91 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module with the lifecycle state machine of a single battle.
+ */
+
+/**
+ * State of the battle:
+ *
+ * - starting: engine is being started.
+ * - lobby: engine started, players can join, but the game didn't start yet.
+ * - playing: game started, after SERVER_STARTPLAYING.
+ * - game_over: game finished, after SERVER_GAMEOVER.
+ * - quitting: engine is shutting down, after SERVER_QUIT or kill request.
+ * - exited: engine exited, final state.
+ */
+export type BattleState = 'starting' | 'lobby' | 'playing' | 'game_over' | 'quitting' | 'exited';
+
+export interface BattleStateChange {
+	from: BattleState;
+	to: BattleState;
+	time: Date;
+}
+
+// Allowed transitions, the engine can exit or be killed in any state.
+const TRANSITIONS: { [from in BattleState]: BattleState[] } = {
+	starting: ['lobby', 'quitting', 'exited'],
+	lobby: ['playing', 'quitting', 'exited'],
+	playing: ['game_over', 'quitting', 'exited'],
+	game_over: ['quitting', 'exited'],
+	quitting: ['exited'],
+	exited: [],
+};
+
+/**
+ * Error thrown for transitions not allowed by the state machine.
+ */
+export class BattleStateError extends Error {
+	constructor(
+		public from: BattleState,
+		public to: BattleState,
+	) {
+		super(`illegal battle state transition from ${from} to ${to}`);
+		this.name = 'BattleStateError';
+	}
+}
+
+/**
+ * BattleStateMachine validates the transitions between battle states and
+ * reports every change.
+ */
+export class BattleStateMachine {
+	private current: BattleState = 'starting';
+	private changedAt: Date = new Date();
+
+	/**
+	 * @param onChange Called synchronously for every state change.
+	 */
+	constructor(private onChange: (change: BattleStateChange) => void) {}
+
+	get state(): BattleState {
+		return this.current;
+	}
+
+	/**
+	 * When the battle entered the current state.
+	 */
+	get since(): Date {
+		return this.changedAt;
+	}
+
+	/**
+	 * Move to the new state. Transitions to the current state are ignored, as
+	 * e.g. every player reports the game over.
+	 *
+	 * @throws {BattleStateError} When the transition is not allowed, the
+	 *     state is left unchanged.
+	 */
+	transition(to: BattleState) {
+		if (to === this.current) return;
+		if (!TRANSITIONS[this.current].includes(to)) {
+			throw new BattleStateError(this.current, to);
+		}
+		const change = { from: this.current, to, time: new Date() };
+		this.current = to;
+		this.changedAt = change.time;
+		this.onChange(change);
+	}
+}
@@ -0,0 +1,136 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { suite, test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { pino } from 'pino';
+import { spawnSync } from 'node:child_process';
+import { mkdtemp, mkdir, rm, readFile, writeFile, readdir } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { tmpdir } from 'node:os';
+import { chdir } from 'node:process';
+import type { AutohostStartRequestData } from 'tachyon-protocol/types';
+import { BattleSummaryRecorder, writeBattleArtifacts, type Env } from './battleSummary.js';
+import { BattlePlayerStates } from './playerStates.js';
+
+const req: AutohostStartRequestData = {
+	battleId: 'battle1',
+	engineVersion: 'stable',
+	mapName: 'map v1',
+	gameName: 'mod v1',
+	startPosType: 'fixed',
+	allyTeams: [],
+};
+
+const players = new BattlePlayerStates();
+players.addPlayer({ userId: 'u1', name: 'user1', playerNumber: 0 }, false);
+players.addPlayer({ userId: 'u2', name: 'user2', playerNumber: 1 }, false);
+
+suite('BattleSummaryRecorder', () => {
+	test('records timeline and outcome', () => {
+		const recorder = new BattleSummaryRecorder(req, () => players.getStates());
+		recorder.handleUpdate({ type: 'player_joined', userId: 'u1', playerNumber: 0 });
+		recorder.handleUpdate({ type: 'start' });
+		recorder.handleUpdate({ type: 'engine_message', message: 'ignored' });
+		recorder.handleUpdate({ type: 'player_left', userId: 'u2', reason: 'kicked' });
+		recorder.handleUpdate({ type: 'finished', userId: 'u1', winningAllyTeams: [1] });
+		const summary = recorder.finish({
+			reason: 'quit',
+			engineVersion: '2025.01.6',
+			demoPath: resolve('instances/battle1/demos/test.sdfz'),
+			resourceUsage: null,
+		});
+
+		assert.equal(summary.engineVersion, '2025.01.6');
+		assert.equal(summary.requestedEngineVersion, 'stable');
+		assert.equal(summary.exitReason, 'quit');
+		assert.equal(summary.demo, 'demos/test.sdfz');
+		assert.deepEqual(summary.winningAllyTeams, [1]);
+		assert.deepEqual(
+			summary.players.map((p) => p.playerNumber),
+			[0, 1],
+		);
+		assert.deepEqual(
+			summary.timeline.map((e) => [e.type, e.playerNumber]),
+			[
+				['joined', 0],
+				['left', 1],
+			],
+		);
+		assert.ok(summary.gameStartedAt);
+		assert.ok(summary.startedAt <= summary.finishedAt);
+	});
+});
+
+suite('writeBattleArtifacts', () => {
+	const origCwd = process.cwd();
+	let testDir: string;
+
+	beforeEach(async () => {
+		testDir = await mkdtemp(join(tmpdir(), 'battle-summary-test-'));
+		chdir(testDir);
+	});
+
+	afterEach(async () => {
+		chdir(origCwd);
+		await rm(testDir, { recursive: true });
+	});
+
+	function getEnv(battleArtifactsArchive: boolean): Env {
+		return {
+			logger: pino({ level: 'silent' }),
+			config: { battleArtifactsArchive },
+		};
+	}
+
+	function getSummary() {
+		return new BattleSummaryRecorder(req, () => players.getStates()).finish({
+			reason: 'crash',
+			engineVersion: 'stable',
+			demoPath: resolve('instances/battle1/demos/test.sdfz'),
+			resourceUsage: null,
+		});
+	}
+
+	test('skips missing instance directory', async () => {
+		await writeBattleArtifacts(getEnv(true), getSummary());
+		assert.deepEqual(await readdir('.'), []);
+	});
+
+	test('writes summary only', async () => {
+		await mkdir('instances/battle1', { recursive: true });
+		await writeBattleArtifacts(getEnv(false), getSummary());
+		const summary = JSON.parse(await readFile('instances/battle1/summary.json', 'utf-8'));
+		assert.equal(summary.exitReason, 'crash');
+		assert.deepEqual(await readdir('instances/battle1'), ['summary.json']);
+	});
+
+	test('packs artifacts into archive', async () => {
+		await mkdir('instances/battle1/demos', { recursive: true });
+		for (const file of [
+			'script.txt',
+			'infolog.txt',
+			'engine.log',
+			'engine.log.1',
+			'demos/test.sdfz',
+			'unrelated.txt',
+		]) {
+			await writeFile(join('instances/battle1', file), file);
+		}
+		await writeBattleArtifacts(getEnv(true), getSummary());
+
+		const list = spawnSync('tar', ['-tzf', 'instances/battle1/artifacts.tar.gz'], {
+			encoding: 'utf-8',
+		});
+		assert.equal(list.status, 0);
+		assert.deepEqual(list.stdout.trim().split('\n').sort(), [
+			'demos/test.sdfz',
+			'engine.log',
+			'engine.log.1',
+			'infolog.txt',
+			'script.txt',
+			'summary.json',
+		]);
+	});
+});
@@ -0,0 +1,216 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module recording the machine-readable summary of the battle and bundling
+ * it with other battle artifacts.
+ */
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import fs from 'node:fs';
+import * as path from 'node:path';
+import type {
+	AutohostStartRequestData,
+	AutohostUpdateEventData,
+	PlayerLeftUpdate,
+} from 'tachyon-protocol/types';
+import { Environment } from './environment.js';
+import type { GameExitInfo } from './games.js';
+import { INSTANCES_DIR } from './instances.js';
+import type { PlayerState } from './playerStates.js';
+import type { ResourceUsageSummary } from './resourceUsage.js';
+
+interface Config {
+	battleArtifactsArchive: boolean;
+}
+
+interface Mocks {
+	spawn?: typeof spawn;
+}
+
+export type Env = Environment<Config, Mocks>;
+
+export const SUMMARY_FILE = 'summary.json';
+export const ARTIFACTS_ARCHIVE_FILE = 'artifacts.tar.gz';
+
+// Files from the instance directory bundled into the archive together with the
+// summary and demo, if they exist: the start script, engine metadata, and all
+// the engine logs including the rotated ones.
+const ARCHIVED_FILES =
+	/^(script\.txt|engine\.json|infolog\.txt|crash-report\.txt|engine\.log(\.\d+)?)$/;
+
+export type BattleTimelineEntry = {
+	// ISO 8601 timestamp of the event.
+	time: string;
+	userId: string;
+	playerNumber: number;
+} & (
+	| { type: 'joined' }
+	| { type: 'left'; reason: PlayerLeftUpdate['reason'] }
+	| { type: 'defeated' }
+);
+
+/**
+ * Summary of the battle written as `summary.json` to the instance directory.
+ *
+ * All timestamps are ISO 8601 strings.
+ */
+export interface BattleSummary {
+	battleId: string;
+	engineVersion: string;
+	// Engine version from the start request, when it was an alias.
+	requestedEngineVersion?: string;
+	mapName: string;
+	gameName: string;
+	startedAt: string;
+	// When the game itself started, null if it never did.
+	gameStartedAt: string | null;
+	finishedAt: string;
+	// Final state of players with their sessions, see BattlePlayerStates.
+	players: PlayerState[];
+	timeline: BattleTimelineEntry[];
+	winningAllyTeams: number[] | null;
+	exitReason: GameExitInfo['reason'];
+	// Path of the demo relative to the instance directory.
+	demo: string | null;
+	// Peak and average resource usage of the engine process, if sampled.
+	resourceUsage: ResourceUsageSummary | null;
+}
+
+/**
+ * BattleSummaryRecorder collects the summary of a single battle from the
+ * tachyon updates generated for it.
+ */
+export class BattleSummaryRecorder {
+	private startedAt = new Date();
+	private gameStartedAt: Date | null = null;
+	private timeline: BattleTimelineEntry[] = [];
+	private winningAllyTeams: number[] | null = null;
+
+	/**
+	 * @param getPlayers Returns the current players of the battle, they can
+	 *     change during the battle, e.g. when spectators are added.
+	 */
+	constructor(
+		private req: AutohostStartRequestData,
+		private getPlayers: () => PlayerState[],
+	) {}
+
+	handleUpdate(update: AutohostUpdateEventData['update']) {
+		const time = new Date().toISOString();
+		const playerNumber = (userId: string) =>
+			this.getPlayers().find((p) => p.userId === userId)?.playerNumber ?? -1;
+		switch (update.type) {
+			case 'start':
+				this.gameStartedAt = new Date();
+				break;
+			case 'player_joined':
+				this.timeline.push({
+					time,
+					type: 'joined',
+					userId: update.userId,
+					playerNumber: update.playerNumber,
+				});
+				break;
+			case 'player_left':
+				this.timeline.push({
+					time,
+					type: 'left',
+					userId: update.userId,
+					playerNumber: playerNumber(update.userId),
+					reason: update.reason,
+				});
+				break;
+			case 'player_defeated':
+				this.timeline.push({
+					time,
+					type: 'defeated',
+					userId: update.userId,
+					playerNumber: playerNumber(update.userId),
+				});
+				break;
+			case 'finished':
+				this.winningAllyTeams = update.winningAllyTeams;
+				break;
+		}
+	}
+
+	/**
+	 * Build the final summary once the battle exited.
+	 */
+	finish(exit: GameExitInfo): BattleSummary {
+		const instanceDir = path.resolve(INSTANCES_DIR, this.req.battleId);
+		const summary: BattleSummary = {
+			battleId: this.req.battleId,
+			engineVersion: exit.engineVersion,
+			mapName: this.req.mapName,
+			gameName: this.req.gameName,
+			startedAt: this.startedAt.toISOString(),
+			gameStartedAt: this.gameStartedAt?.toISOString() ?? null,
+			finishedAt: new Date().toISOString(),
+			players: this.getPlayers(),
+			timeline: this.timeline,
+			winningAllyTeams: this.winningAllyTeams,
+			exitReason: exit.reason,
+			demo: exit.demoPath ? path.relative(instanceDir, exit.demoPath) : null,
+			resourceUsage: exit.resourceUsage,
+		};
+		if (exit.engineVersion !== this.req.engineVersion) {
+			summary.requestedEngineVersion = this.req.engineVersion;
+		}
+		return summary;
+	}
+}
+
+/**
+ * Write the summary into the instance directory of the battle and, when
+ * `battleArtifactsArchive` is enabled, pack it together with the start script,
+ * demo and engine logs into a single gzipped tarball.
+ *
+ * Does nothing when the instance directory doesn't exist, e.g. when the
+ * engine failed to start.
+ */
+export async function writeBattleArtifacts(env: Env, summary: BattleSummary): Promise<void> {
+	const instanceDir = path.resolve(INSTANCES_DIR, summary.battleId);
+	try {
+		await fs.promises.writeFile(
+			path.join(instanceDir, SUMMARY_FILE),
+			JSON.stringify(summary, null, '\t'),
+		);
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+			return;
+		}
+		throw err;
+	}
+	if (!env.config.battleArtifactsArchive) {
+		return;
+	}
+
+	const files = [SUMMARY_FILE];
+	// Demos outside of the instance directory are not bundled.
+	if (summary.demo && !summary.demo.startsWith('..')) {
+		files.push(summary.demo);
+	}
+	files.push(...(await fs.promises.readdir(instanceDir)).filter((f) => ARCHIVED_FILES.test(f)));
+	// Written under temporary name so the archive is never seen incomplete.
+	const archive = path.join(instanceDir, ARTIFACTS_ARCHIVE_FILE);
+	const tmpArchive = `${archive}.tmp`;
+	try {
+		const proc = (env.mocks?.spawn ?? spawn)(
+			'tar',
+			['-czf', tmpArchive, '-C', instanceDir, '--', ...files],
+			{ stdio: 'ignore' },
+		);
+		const [code, signal] = (await once(proc, 'exit')) as [number | null, string | null];
+		if (code !== 0) {
+			throw new Error(
+				`failed to create artifacts archive, tar exited with code ${code}, signal ${signal}`,
+			);
+		}
+		await fs.promises.rename(tmpArchive, archive);
+	} finally {
+		await fs.promises.rm(tmpArchive, { force: true });
+	}
+}
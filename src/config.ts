@@ -24,9 +24,75 @@ export interface Config {
 	engineAutohostStartPort: number;
 	maxPortsUsed: number;
 	engineInstallTimeoutSeconds: number;
+	engineDownloadUrlTemplate: string | null;
+	engineChecksumsUrlTemplate: string | null;
+	engineChecksumsFile: string | null;
+	engineSignatureUrlTemplate: string | null;
+	engineSigningPublicKeyFile: string | null;
+	maxConcurrentEngineInstalls: number;
+	engineProbeTimeoutSeconds: number;
+	maxEngineVersions: number | null;
+	maxEnginesDiskUsageMB: number | null;
+	keepEngineVersions: string[];
+	engineAliases: {
+		[alias: string]: { version: string | null; match: string | null; advertise: boolean };
+	};
+	contentDir: string;
+	contentStoreDir: string | null;
+	contentMirrorUrl: string | null;
+	contentFetchTimeoutSeconds: number;
+	contentRoots: string[];
+	instanceRetentionPolicy: 'delete' | 'keep_days' | 'keep_last' | 'keep_crashed';
+	instanceRetentionDays: number;
+	instanceRetentionCount: number;
+	instancePendingExportMaxDays: number;
+	instanceSweepIntervalSeconds: number;
+	engineOutputLogLevel: 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal' | 'silent';
+	engineOutputTailLines: number;
+	engineLogMaxSizeMB: number;
+	engineLogMaxFiles: number;
+	crashReportLines: number;
+	battleArtifactsArchive: boolean;
+	localApiHost: string;
+	localApiPort: number | null;
+	demoExportSink: 'none' | 'local' | 'http' | 's3';
+	demoExportDir: string | null;
+	demoExportUrlTemplate: string | null;
+	demoExportS3Endpoint: string | null;
+	demoExportS3Bucket: string | null;
+	demoExportS3Region: string;
+	demoExportS3KeyPrefix: string;
+	demoExportS3AccessKeyId: string | null;
+	demoExportS3SecretAccessKey: string | null;
+	demoExportMaxAttempts: number;
+	demoExportRetryDelaySeconds: number;
+	demoExportTimeoutSeconds: number;
+	engineStartupTimeoutSeconds: number;
 	maxGameDurationSeconds: number;
+	engineShutdownGraceSeconds: number;
+	engineSigtermTimeoutSeconds: number;
+	engineWatchdogSilenceSeconds: number | null;
+	engineWatchdogCheckCpu: boolean;
+	resourceSamplingIntervalSeconds: number | null;
+	engineCgroupParent: string | null;
+	engineMemoryLimitMB: number | null;
+	engineCpuLimit: number | null;
+	enginePidsLimit: number | null;
+	engineSandbox: 'none' | 'unshare';
+	engineSandboxCommand: string;
+	engineSandboxHiddenPaths: string[];
+	maxGameDurationWarningsSeconds: number[];
+	gameDurationOverrideOption: string | null;
+	gameDurationOverrideMinSeconds: number;
+	gameDurationOverrideMaxSeconds: number;
+	idleKillNoJoinSeconds: number | null;
+	idleKillAllPlayersLeftSeconds: number | null;
+	idleKillGameOverSeconds: number | null;
 }
 
+// Longest delay of setTimeout, longer ones overflow and fire right away.
+const MAX_TIMEOUT_SECONDS = Math.floor((2 ** 31 - 1) / 1000);
+
 const ConfigSchema: JSONSchemaType<Config> = {
 	$id: 'Config',
 	type: 'object',
@@ -117,11 +183,396 @@ const ConfigSchema: JSONSchemaType<Config> = {
 			default: 10 * 60,
 			minimum: 5,
 		},
+		engineDownloadUrlTemplate: {
+			type: 'string',
+			description:
+				'URL of the 7z engine archive to download when installing engine. The `{version}` placeholder is replaced with the requested engine version. Engine installation is disabled when not set.',
+		},
+		engineChecksumsUrlTemplate: {
+			type: 'string',
+			description:
+				'URL of the SHA-256 checksums manifest, in `sha256sum` format, used to verify downloaded engine archives. The `{version}` placeholder is replaced with the engine version.',
+		},
+		engineChecksumsFile: {
+			type: 'string',
+			description:
+				'Path to local SHA-256 checksums manifest, in `sha256sum` format, used to verify downloaded engine archives. Takes precedence over `engineChecksumsUrlTemplate`.',
+		},
+		engineSignatureUrlTemplate: {
+			type: 'string',
+			description:
+				'URL of the detached signature of the checksums manifest. The `{version}` placeholder is replaced with the engine version.',
+		},
+		engineSigningPublicKeyFile: {
+			type: 'string',
+			description:
+				'Path to PEM encoded public key used to verify signature of the checksums manifest. When set, installation fails for manifests without a valid signature.',
+		},
+		maxConcurrentEngineInstalls: {
+			type: 'integer',
+			description:
+				'Maximum number of different engine versions installed in parallel, the rest is queued.',
+			default: 2,
+			minimum: 1,
+		},
+		engineProbeTimeoutSeconds: {
+			type: 'number',
+			description:
+				'Timeout for the `spring-dedicated --version` probe used to validate engines before advertising them.',
+			default: 10,
+			minimum: 1,
+		},
+		maxEngineVersions: {
+			type: 'integer',
+			description:
+				'Maximum number of installed engine versions, least recently used versions above the limit are removed.',
+			minimum: 1,
+		},
+		maxEnginesDiskUsageMB: {
+			type: 'number',
+			description:
+				'Maximum disk usage of installed engine versions in MiB, least recently used versions above the limit are removed.',
+			minimum: 1,
+		},
+		keepEngineVersions: {
+			type: 'array',
+			description: 'Engine versions that are never removed by the garbage collection.',
+			items: { type: 'string' },
+			default: [],
+		},
+		engineAliases: {
+			type: 'object',
+			description:
+				'Aliases, e.g. `stable`, accepted in place of the engine version when starting battles.',
+			additionalProperties: {
+				type: 'object',
+				properties: {
+					version: {
+						type: 'string',
+						description: 'Engine version the alias points to.',
+					},
+					match: {
+						type: 'string',
+						description:
+							'Regular expression, the alias points to the newest engine version matching it. Used when `version` is not set.',
+						format: 'regex',
+					},
+					advertise: {
+						type: 'boolean',
+						description: 'Whatever to include the alias in the available engines.',
+						default: false,
+					},
+				},
+				required: ['advertise'],
+				additionalProperties: false,
+			},
+			default: {},
+			required: [],
+		},
+		contentDir: {
+			type: 'string',
+			description: 'Shared directory with games and maps fetched for battles.',
+			default: 'content',
+		},
+		contentStoreDir: {
+			type: 'string',
+			description:
+				'Local content store directory with index.json and games and maps to fetch content from.',
+		},
+		contentMirrorUrl: {
+			type: 'string',
+			description:
+				'Base URL of the HTTP mirror with index.json and games and maps to fetch content from, used when content is not in the local store.',
+			format: 'uri',
+		},
+		contentFetchTimeoutSeconds: {
+			type: 'number',
+			description: 'Timeout for fetching a single game or map archive.',
+			default: 10 * 60,
+			minimum: 1,
+		},
+		contentRoots: {
+			type: 'array',
+			description:
+				'Shared read-only directories with pool, packages, maps and games passed to all engines as data directories. `contentDir` is added automatically when content fetching is configured.',
+			items: { type: 'string' },
+			default: [],
+		},
+		instanceRetentionPolicy: {
+			type: 'string',
+			description:
+				'How long to keep instance directories of finished battles: `delete` right away, `keep_days` for instanceRetentionDays, `keep_last` instanceRetentionCount most recent, `keep_crashed` only crashed for instanceRetentionDays.',
+			enum: ['delete', 'keep_days', 'keep_last', 'keep_crashed'],
+			default: 'keep_days',
+		},
+		instanceRetentionDays: {
+			type: 'number',
+			description: 'Days to keep instance directories for, see instanceRetentionPolicy.',
+			default: 7,
+			minimum: 0,
+		},
+		instanceRetentionCount: {
+			type: 'number',
+			description:
+				'Number of most recent instance directories to keep, see instanceRetentionPolicy.',
+			default: 100,
+			minimum: 0,
+		},
+		instancePendingExportMaxDays: {
+			type: 'number',
+			description:
+				'Days after the battle finished to keep instance directories with artifacts that failed to export, e.g. demos, after that the export is given up on.',
+			default: 7,
+			exclusiveMinimum: 0,
+		},
+		instanceSweepIntervalSeconds: {
+			type: 'number',
+			description: 'How often to remove instance directories past retention.',
+			default: 60 * 60,
+			minimum: 1,
+		},
+		engineOutputLogLevel: {
+			type: 'string',
+			description: 'Log level at which lines of the engine output are logged.',
+			enum: ['trace', 'debug', 'info', 'warn', 'error', 'fatal', 'silent'],
+			default: 'debug',
+		},
+		engineOutputTailLines: {
+			type: 'number',
+			description: 'Number of the last lines of the engine output kept in memory.',
+			default: 200,
+			minimum: 1,
+		},
+		engineLogMaxSizeMB: {
+			type: 'number',
+			description: 'Size in MiB after which the engine.log in instance directory is rotated.',
+			default: 50,
+			minimum: 1,
+		},
+		engineLogMaxFiles: {
+			type: 'number',
+			description: 'Number of rotated engine.log files kept in instance directory.',
+			default: 2,
+			minimum: 0,
+		},
+		crashReportLines: {
+			type: 'number',
+			description:
+				'Number of the last lines of infolog.txt or engine output included in engine crash details.',
+			default: 50,
+			minimum: 1,
+		},
+		battleArtifactsArchive: {
+			type: 'boolean',
+			description:
+				'Whether to pack summary.json, script.txt, the demo and engine logs of finished battles into artifacts.tar.gz in the instance directory.',
+			default: false,
+		},
+		localApiHost: {
+			type: 'string',
+			description: 'Address the local HTTP API for querying running battles listens on.',
+			default: '127.0.0.1',
+		},
+		localApiPort: {
+			type: 'number',
+			description:
+				'Port of the local HTTP API for querying running battles, e.g. their team statistics. The API is disabled when not set.',
+			minimum: 0,
+			maximum: 65535,
+		},
+		demoExportSink: {
+			type: 'string',
+			description:
+				'Where to export demos of finished battles, and infologs and crash reports of crashed ones: `none`, `local` directory demoExportDir, `http` PUT to demoExportUrlTemplate, or `s3` compatible object storage.',
+			enum: ['none', 'local', 'http', 's3'],
+			default: 'none',
+		},
+		demoExportDir: {
+			type: 'string',
+			description: 'Directory to archive demos in for the `local` demoExportSink.',
+		},
+		demoExportUrlTemplate: {
+			type: 'string',
+			description:
+				'URL to PUT demos to for the `http` demoExportSink, `{battleId}` and `{file}` are replaced with the battle id and demo file name.',
+		},
+		demoExportS3Endpoint: {
+			type: 'string',
+			description:
+				'Endpoint URL of the S3 compatible storage, bucket is addressed path-style.',
+			format: 'uri',
+		},
+		demoExportS3Bucket: {
+			type: 'string',
+			description: 'Bucket to upload demos to for the `s3` demoExportSink.',
+		},
+		demoExportS3Region: {
+			type: 'string',
+			description: 'Region used to sign requests to the S3 compatible storage.',
+			default: 'us-east-1',
+		},
+		demoExportS3KeyPrefix: {
+			type: 'string',
+			description: 'Prefix of object keys, demos are stored as `<prefix><battleId>/<file>`.',
+			default: '',
+		},
+		demoExportS3AccessKeyId: {
+			type: 'string',
+			description: 'Access key id for the S3 compatible storage.',
+		},
+		demoExportS3SecretAccessKey: {
+			type: 'string',
+			description: 'Secret access key for the S3 compatible storage.',
+		},
+		demoExportMaxAttempts: {
+			type: 'number',
+			description: 'Number of attempts to export a demo before giving up.',
+			default: 5,
+			minimum: 1,
+		},
+		demoExportRetryDelaySeconds: {
+			type: 'number',
+			description: 'Delay before the first retry of demo export, doubled on every retry.',
+			default: 10,
+			minimum: 0,
+		},
+		demoExportTimeoutSeconds: {
+			type: 'number',
+			description: 'Timeout for a single demo export attempt.',
+			default: 5 * 60,
+			minimum: 1,
+		},
+		engineStartupTimeoutSeconds: {
+			type: 'number',
+			description:
+				'How many seconds to wait for the engine to start, from setting up the instance directory until the first packet from the engine, before failing the battle start.',
+			default: 60,
+			exclusiveMinimum: 0,
+		},
 		maxGameDurationSeconds: {
 			type: 'number',
 			description: 'How many seconds to wait before automatically killing the game.',
 			default: 8 * 60 * 60,
 			minimum: 60 * 60,
+			maximum: MAX_TIMEOUT_SECONDS,
+		},
+		engineShutdownGraceSeconds: {
+			type: 'number',
+			description:
+				'How many seconds to wait for the engine to quit on its own after asking it to, e.g. when the battle is killed, before terminating it with SIGTERM. With 0, the engine is terminated right away.',
+			default: 10,
+			minimum: 0,
+		},
+		engineSigtermTimeoutSeconds: {
+			type: 'number',
+			description:
+				'How many seconds to wait for the engine to exit after SIGTERM before killing it with SIGKILL.',
+			default: 20,
+			minimum: 1,
+		},
+		engineWatchdogSilenceSeconds: {
+			type: 'number',
+			description:
+				'How many seconds a playing game can go without any packets from the engine before it is reported as unresponsive. The pregame lobby and finished games are not checked. Disabled when not set.',
+			minimum: 10,
+		},
+		engineWatchdogCheckCpu: {
+			type: 'boolean',
+			description:
+				"Whether to kill the unresponsive engine when it also doesn't make any CPU progress according to /proc, Linux only.",
+			default: true,
+		},
+		engineCgroupParent: {
+			type: 'string',
+			description:
+				'Path of the cgroup v2 delegated to autohost, with memory, cpu and pids controllers enabled for its children, e.g. /sys/fs/cgroup/autohost.slice. Every engine is run in its own child cgroup with the configured limits. Without it, or when cgroups fail, only the memory limit is applied with prlimit.',
+		},
+		engineMemoryLimitMB: {
+			type: 'number',
+			description:
+				'Memory limit of a single engine: memory.max with cgroups, address space rlimit otherwise. Not limited when not set.',
+			minimum: 1,
+		},
+		engineCpuLimit: {
+			type: 'number',
+			description:
+				'CPU limit of a single engine in number of cores, e.g. 1.5. Requires cgroups. Not limited when not set.',
+			exclusiveMinimum: 0,
+		},
+		enginePidsLimit: {
+			type: 'number',
+			description:
+				'Limit of processes and threads of a single engine. Requires cgroups. Not limited when not set.',
+			minimum: 1,
+		},
+		engineSandbox: {
+			type: 'string',
+			description:
+				'Sandbox for engine processes: `none`, or `unshare` to run them in unprivileged user, mount, PID, IPC and UTS namespaces where the filesystem is read-only except the instance directory, hidden paths are empty and only a minimal environment is passed. The network is not isolated. Checked at startup.',
+			enum: ['none', 'unshare'],
+			default: 'none',
+		},
+		engineSandboxCommand: {
+			type: 'string',
+			description: 'Path of the util-linux unshare command used by the `unshare` sandbox.',
+			default: 'unshare',
+		},
+		engineSandboxHiddenPaths: {
+			type: 'array',
+			items: { type: 'string' },
+			description:
+				'Files and directories hidden from sandboxed engines, e.g. with credentials. The config file is always hidden.',
+			default: [],
+		},
+		resourceSamplingIntervalSeconds: {
+			type: 'number',
+			description:
+				'How often to sample CPU, memory, thread count and I/O of every engine process from /proc, Linux only. Disabled when not set.',
+			minimum: 1,
+		},
+		maxGameDurationWarningsSeconds: {
+			type: 'array',
+			description:
+				'How many seconds before reaching the max game duration to warn players in game that the game will be killed.',
+			items: { type: 'number', exclusiveMinimum: 0 },
+			default: [15 * 60, 5 * 60, 60],
+		},
+		gameDurationOverrideOption: {
+			type: 'string',
+			description:
+				'Name of the game option in the start request that overrides the max game duration in seconds for the battle. Overrides are disabled when not set.',
+		},
+		gameDurationOverrideMinSeconds: {
+			type: 'number',
+			description: 'Lower bound of the max game duration override.',
+			default: 60 * 60,
+			minimum: 0,
+			maximum: MAX_TIMEOUT_SECONDS,
+		},
+		gameDurationOverrideMaxSeconds: {
+			type: 'number',
+			description: 'Upper bound of the max game duration override.',
+			default: 24 * 60 * 60,
+			minimum: 0,
+			maximum: MAX_TIMEOUT_SECONDS,
+		},
+		idleKillNoJoinSeconds: {
+			type: 'number',
+			description:
+				'How many seconds after start to kill the battle nobody joined. Disabled when not set.',
+			minimum: 1,
+		},
+		idleKillAllPlayersLeftSeconds: {
+			type: 'number',
+			description:
+				"How many seconds to wait before killing the battle all non-spectator players left and didn't come back. Disabled when not set.",
+			minimum: 0,
+		},
+		idleKillGameOverSeconds: {
+			type: 'number',
+			description:
+				"How many seconds after game over to kill the battle engine didn't quit. Disabled when not set.",
+			minimum: 0,
 		},
 	},
 	required: ['tachyonServer', 'authClientId', 'authClientSecret', 'hostingIP'],
@@ -139,5 +590,28 @@ export async function loadConfig(path: string): Promise<Config> {
 			cause: new Error(ajv.errorsText(validateConfig.errors)),
 		});
 	}
+	const error = checkConfig(config);
+	if (error) {
+		throw new Error('Invalid config', { cause: new Error(error) });
+	}
 	return config;
 }
+
+/**
+ * Check constraints between config fields not expressible in the schema.
+ *
+ * @returns Description of the first violated constraint or null.
+ */
+function checkConfig(config: Config): string | null {
+	if (
+		config.engineSigningPublicKeyFile &&
+		!config.engineChecksumsFile &&
+		!config.engineChecksumsUrlTemplate
+	) {
+		return 'engineSigningPublicKeyFile requires engineChecksumsFile or engineChecksumsUrlTemplate';
+	}
+	if (config.gameDurationOverrideMinSeconds > config.gameDurationOverrideMaxSeconds) {
+		return 'gameDurationOverrideMinSeconds must not be greater than gameDurationOverrideMaxSeconds';
+	}
+	return null;
+}
@@ -0,0 +1,198 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { suite, test, beforeEach, afterEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { pino } from 'pino';
+import { mkdtemp, mkdir, rm, readFile, writeFile, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createHash } from 'node:crypto';
+import Fastify from 'fastify';
+import { ContentManagerImpl, type ContentIndex, type Env } from './content.js';
+
+const server = Fastify();
+let mirrorFiles: Map<string, string> = new Map();
+let mirrorRequests: string[] = [];
+server.get('/mirror/*', async (req, resp) => {
+	mirrorRequests.push(req.url);
+	const content = mirrorFiles.get(req.url);
+	if (content === undefined) {
+		resp.code(404);
+		return 'not found';
+	}
+	return content;
+});
+await server.listen();
+const MIRROR_URL = `http://localhost:${server.addresses()[0].port}/mirror`;
+
+function sha256(data: string): string {
+	return createHash('sha256').update(data).digest('hex');
+}
+
+const GAME = 'Beyond All Reason test-1234';
+const MAP = 'Comet Catcher Remake 1.8';
+
+function contentIndex(gameData: string, mapData: string): ContentIndex {
+	return {
+		games: {
+			[GAME]: {
+				file: 'bar-test-1234.sdz',
+				archiveHash: 'gamehash',
+				sha256: sha256(gameData),
+			},
+		},
+		maps: {
+			[MAP]: {
+				file: 'comet_catcher_remake_1.8.sd7',
+				archiveHash: 'maphash',
+				sha256: sha256(mapData),
+			},
+		},
+	};
+}
+
+suite('ContentManagerImpl', () => {
+	let testDir: string;
+
+	beforeEach(async () => {
+		testDir = await mkdtemp(join(tmpdir(), 'content-test-'));
+		mirrorFiles = new Map();
+		mirrorRequests = [];
+	});
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true });
+	});
+
+	after(() => server.close());
+
+	function getEnv(config: Partial<Env['config']>): Env {
+		return {
+			logger: pino({ level: 'silent' }),
+			config: {
+				contentDir: join(testDir, 'content'),
+				contentStoreDir: null,
+				contentMirrorUrl: null,
+				contentFetchTimeoutSeconds: 10,
+				...config,
+			},
+		};
+	}
+
+	async function createStore(index: ContentIndex, files: { [path: string]: string }) {
+		const storeDir = join(testDir, 'store');
+		await mkdir(join(storeDir, 'games'), { recursive: true });
+		await mkdir(join(storeDir, 'maps'), { recursive: true });
+		await writeFile(join(storeDir, 'index.json'), JSON.stringify(index));
+		for (const [path, data] of Object.entries(files)) {
+			await writeFile(join(storeDir, path), data);
+		}
+		return storeDir;
+	}
+
+	function setupMirror(index: ContentIndex, files: { [path: string]: string }) {
+		mirrorFiles.set('/mirror/index.json', JSON.stringify(index));
+		for (const [path, data] of Object.entries(files)) {
+			mirrorFiles.set(`/mirror/${path.split('/').map(encodeURIComponent).join('/')}`, data);
+		}
+	}
+
+	const req = {
+		gameName: GAME,
+		mapName: MAP,
+		gameArchiveHash: 'gamehash',
+		mapArchiveHash: 'maphash',
+	};
+
+	test('does nothing without content sources', async () => {
+		const cm = new ContentManagerImpl(getEnv({}));
+		await cm.ensureContent(req);
+	});
+
+	test('fetches content from local store', async () => {
+		const storeDir = await createStore(contentIndex('game', 'map'), {
+			'games/bar-test-1234.sdz': 'game',
+			'maps/comet_catcher_remake_1.8.sd7': 'map',
+		});
+		const cm = new ContentManagerImpl(getEnv({ contentStoreDir: storeDir }));
+		await cm.ensureContent(req);
+
+		const contentDir = join(testDir, 'content');
+		assert.equal(await readFile(join(contentDir, 'games/bar-test-1234.sdz'), 'utf-8'), 'game');
+		assert.equal(
+			await readFile(join(contentDir, 'maps/comet_catcher_remake_1.8.sd7'), 'utf-8'),
+			'map',
+		);
+		assert.deepEqual(await readdir(join(contentDir, '.fetch')), []);
+	});
+
+	test('falls back to mirror and fetches once', async () => {
+		const storeDir = await createStore({ games: {}, maps: {} }, {});
+		setupMirror(contentIndex('game', 'map'), {
+			'games/bar-test-1234.sdz': 'game',
+			'maps/comet_catcher_remake_1.8.sd7': 'map',
+		});
+		const env = getEnv({ contentStoreDir: storeDir, contentMirrorUrl: MIRROR_URL });
+		const cm = new ContentManagerImpl(env);
+		await Promise.all([cm.ensureContent(req), cm.ensureContent(req)]);
+		assert.deepEqual(mirrorRequests.sort(), [
+			'/mirror/games/bar-test-1234.sdz',
+			'/mirror/index.json',
+			'/mirror/index.json',
+			'/mirror/maps/comet_catcher_remake_1.8.sd7',
+		]);
+
+		// Installed content is remembered across restarts.
+		mirrorRequests = [];
+		await new ContentManagerImpl(env).ensureContent(req);
+		assert.deepEqual(mirrorRequests, []);
+	});
+
+	test('rejects unknown content', async () => {
+		const storeDir = await createStore(contentIndex('game', 'map'), {
+			'games/bar-test-1234.sdz': 'game',
+		});
+		const cm = new ContentManagerImpl(getEnv({ contentStoreDir: storeDir }));
+		await assert.rejects(cm.ensureContent({ ...req, mapName: 'Unknown' }), {
+			name: 'TachyonError',
+			reason: 'invalid_request',
+			details: 'map Unknown is not available in content sources',
+		});
+	});
+
+	test('rejects mismatched archive hash', async () => {
+		const storeDir = await createStore(contentIndex('game', 'map'), {
+			'games/bar-test-1234.sdz': 'game',
+			'maps/comet_catcher_remake_1.8.sd7': 'map',
+		});
+		const cm = new ContentManagerImpl(getEnv({ contentStoreDir: storeDir }));
+		await assert.rejects(cm.ensureContent({ ...req, gameArchiveHash: 'otherhash' }), {
+			name: 'TachyonError',
+			reason: 'invalid_request',
+		});
+	});
+
+	test('rejects corrupted archive', async () => {
+		setupMirror(contentIndex('game', 'map'), {
+			'games/bar-test-1234.sdz': 'game',
+			'maps/comet_catcher_remake_1.8.sd7': 'corrupted',
+		});
+		const cm = new ContentManagerImpl(getEnv({ contentMirrorUrl: MIRROR_URL }));
+		await assert.rejects(cm.ensureContent(req), {
+			name: 'TachyonError',
+			reason: 'internal_error',
+			details: /checksum mismatch/,
+		});
+		assert.deepEqual(await readdir(join(testDir, 'content/maps')).catch(() => []), []);
+	});
+
+	test('fails when mirror is not reachable', async () => {
+		const cm = new ContentManagerImpl(getEnv({ contentMirrorUrl: MIRROR_URL }));
+		await assert.rejects(cm.ensureContent(req), {
+			name: 'TachyonError',
+			reason: 'internal_error',
+		});
+	});
+});
@@ -0,0 +1,358 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module responsible for making sure the game and map needed by the battle are
+ * available locally before the engine is started.
+ */
+import { createHash } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import fs from 'node:fs';
+import * as path from 'node:path';
+import { Ajv, type JSONSchemaType } from 'ajv';
+import type { AutohostStartRequestData } from 'tachyon-protocol/types';
+import { TachyonError } from './tachyonTypes.js';
+import { Environment } from './environment.js';
+import { exists, isSafeFileName, withStagingDir } from './fsUtils.js';
+
+/**
+ * Single game or map archive listed in the content index.
+ */
+export interface ContentEntry {
+	// File name of the archive in the `games` or `maps` directory.
+	file: string;
+	// Archive checksum as computed by the engine, compared with the hashes
+	// from the start request.
+	archiveHash: string;
+	// Lowercase hex encoded SHA-256 of the archive file.
+	sha256: string;
+}
+
+/**
+ * The `index.json` file describing the contents of the content store or
+ * mirror, keyed by the game and map names as used in the start request.
+ */
+export interface ContentIndex {
+	games: { [name: string]: ContentEntry };
+	maps: { [name: string]: ContentEntry };
+}
+
+type ContentKind = keyof ContentIndex;
+
+const ContentEntrySchema: JSONSchemaType<ContentEntry> = {
+	type: 'object',
+	properties: {
+		file: { type: 'string', minLength: 1 },
+		archiveHash: { type: 'string', minLength: 1 },
+		sha256: { type: 'string', pattern: '^[0-9a-fA-F]{64}$' },
+	},
+	required: ['file', 'archiveHash', 'sha256'],
+	additionalProperties: true,
+};
+
+const ContentIndexSchema: JSONSchemaType<ContentIndex> = {
+	type: 'object',
+	properties: {
+		games: { type: 'object', additionalProperties: ContentEntrySchema, required: [] },
+		maps: { type: 'object', additionalProperties: ContentEntrySchema, required: [] },
+	},
+	required: ['games', 'maps'],
+	additionalProperties: true,
+};
+
+const ajv = new Ajv({ strict: true });
+const validateContentIndex = ajv.compile(ContentIndexSchema);
+
+export type ContentRequest = Pick<
+	AutohostStartRequestData,
+	'gameName' | 'mapName' | 'gameArchiveHash' | 'mapArchiveHash'
+>;
+
+export interface ContentManager {
+	/**
+	 * Make sure the game and map from the start request are available in the
+	 * shared content directory, fetching them if needed.
+	 *
+	 * @throws {TachyonError} when the content isn't available or doesn't match
+	 *     the hashes from the request.
+	 */
+	ensureContent(req: ContentRequest): Promise<void>;
+}
+
+interface Config {
+	contentDir: string;
+	contentStoreDir: string | null;
+	contentMirrorUrl: string | null;
+	contentFetchTimeoutSeconds: number;
+}
+
+export type Env = Environment<Config>;
+
+// Staging directory inside of the content directory used for fetching archives.
+const STAGING_DIR = '.fetch';
+
+// Name of the file in the content directory recording the installed archives.
+const INSTALLED_INDEX_FILE = 'index.json';
+
+const KIND_NAMES: Record<ContentKind, string> = { games: 'game', maps: 'map' };
+
+interface ContentSource {
+	name: string;
+	loadIndex(signal: AbortSignal): Promise<ContentIndex>;
+	open(kind: ContentKind, file: string, signal: AbortSignal): Promise<Readable>;
+}
+
+/**
+ * ContentManagerImpl fetches games and maps into the shared content directory.
+ *
+ * Content is looked up by name in the `index.json` of the local content store
+ * (`contentStoreDir`) first, and then of the HTTP mirror (`contentMirrorUrl`).
+ * Both have the same layout: the index next to the `games` and `maps`
+ * directories with the archives. The archives are copied into the same
+ * layout in `contentDir`, where the engine can load them from.
+ *
+ * When the start request contains the archive hash, it must match the one
+ * from the index, and the fetched archive is always verified against the
+ * SHA-256 from the index.
+ *
+ * When neither store nor mirror is configured, the content is assumed to be
+ * managed externally and nothing is checked.
+ */
+export class ContentManagerImpl implements ContentManager {
+	private logger: Env['logger'];
+	private sources: ContentSource[] = [];
+	private installed: Promise<ContentIndex> | null = null;
+	private pendingFetches: Map<string, Promise<void>> = new Map();
+	// Serializes writes of the installed content index.
+	private indexWrite: Promise<void> = Promise.resolve();
+
+	constructor(private env: Env) {
+		this.logger = env.logger.child({ class: 'ContentManager' });
+		const { contentStoreDir, contentMirrorUrl } = env.config;
+		if (contentStoreDir) {
+			this.sources.push(localSource(contentStoreDir));
+		}
+		if (contentMirrorUrl) {
+			this.sources.push(httpSource(contentMirrorUrl));
+		}
+	}
+
+	async ensureContent(req: ContentRequest): Promise<void> {
+		if (this.sources.length === 0) {
+			return;
+		}
+		// Wait for both so no fetch is left running after returning.
+		const results = await Promise.allSettled([
+			this.ensure('games', req.gameName, req.gameArchiveHash),
+			this.ensure('maps', req.mapName, req.mapArchiveHash),
+		]);
+		for (const result of results) {
+			if (result.status === 'rejected') {
+				throw result.reason;
+			}
+		}
+	}
+
+	private async ensure(kind: ContentKind, name: string, archiveHash?: string): Promise<void> {
+		const entry = (await this.loadInstalled())[kind][name];
+		if (
+			entry &&
+			(!archiveHash || archiveHash === entry.archiveHash) &&
+			(await exists(path.join(this.env.config.contentDir, kind, entry.file)))
+		) {
+			return;
+		}
+
+		// Concurrent battles often use the same map, so let's fetch it once.
+		const key = JSON.stringify([kind, name, archiveHash]);
+		let pending = this.pendingFetches.get(key);
+		if (!pending) {
+			pending = this.fetchContent(kind, name, archiveHash).finally(() => {
+				this.pendingFetches.delete(key);
+			});
+			this.pendingFetches.set(key, pending);
+		}
+		return pending;
+	}
+
+	private async fetchContent(
+		kind: ContentKind,
+		name: string,
+		archiveHash?: string,
+	): Promise<void> {
+		const { contentDir, contentFetchTimeoutSeconds } = this.env.config;
+		const kindName = KIND_NAMES[kind];
+		const signal = AbortSignal.timeout(contentFetchTimeoutSeconds * 1000);
+
+		let found: { source: ContentSource; entry: ContentEntry } | null = null;
+		let lookupFailed = false;
+		for (const source of this.sources) {
+			try {
+				const entry = (await source.loadIndex(signal))[kind][name];
+				if (entry) {
+					found = { source, entry };
+					break;
+				}
+			} catch (err) {
+				this.logger.warn({ err, source: source.name }, 'failed to load content index');
+				lookupFailed = true;
+			}
+		}
+		if (!found) {
+			if (lookupFailed) {
+				throw new TachyonError<'autohost/start'>(
+					'internal_error',
+					`failed to look up ${kindName} ${name} in content sources`,
+				);
+			}
+			throw new TachyonError<'autohost/start'>(
+				'invalid_request',
+				`${kindName} ${name} is not available in content sources`,
+			);
+		}
+		const { source, entry } = found;
+		if (archiveHash && archiveHash !== entry.archiveHash) {
+			throw new TachyonError<'autohost/start'>(
+				'invalid_request',
+				`${kindName} ${name} archive hash mismatch: requested ${archiveHash}, available ${entry.archiveHash}`,
+			);
+		}
+		if (!isSafeFileName(entry.file)) {
+			throw new TachyonError<'autohost/start'>(
+				'internal_error',
+				`invalid file name of ${kindName} ${name} in ${source.name} index`,
+			);
+		}
+
+		this.logger.info({ kind, name, source: source.name, file: entry.file }, 'fetching content');
+		const stagingBase = path.join(contentDir, STAGING_DIR);
+		await withStagingDir(stagingBase, 'content-', async (stagingDir) => {
+			try {
+				const stagingPath = path.join(stagingDir, entry.file);
+				const hash = createHash('sha256');
+				await pipeline(
+					await source.open(kind, entry.file, signal),
+					async function* (source: AsyncIterable<Buffer>) {
+						for await (const chunk of source) {
+							hash.update(chunk);
+							yield chunk;
+						}
+					},
+					fs.createWriteStream(stagingPath),
+					{ signal },
+				);
+				const sha256 = hash.digest('hex');
+				if (sha256 !== entry.sha256.toLowerCase()) {
+					throw new TachyonError<'autohost/start'>(
+						'internal_error',
+						`${kindName} ${name} checksum mismatch: expected ${entry.sha256}, got ${sha256}`,
+					);
+				}
+				await fs.promises.mkdir(path.join(contentDir, kind), { recursive: true });
+				await fs.promises.rename(stagingPath, path.join(contentDir, kind, entry.file));
+				await this.recordInstalled(kind, name, entry);
+			} catch (err) {
+				if (err instanceof TachyonError) {
+					throw err;
+				}
+				this.logger.error({ err, kind, name }, 'failed to fetch content');
+				const reason = signal.aborted
+					? `timed out after ${contentFetchTimeoutSeconds}s`
+					: err instanceof Error
+						? err.message
+						: String(err);
+				throw new TachyonError<'autohost/start'>(
+					'internal_error',
+					`failed to fetch ${kindName} ${name}: ${reason}`,
+				);
+			}
+		});
+	}
+
+	private loadInstalled(): Promise<ContentIndex> {
+		if (!this.installed) {
+			const indexPath = path.join(this.env.config.contentDir, INSTALLED_INDEX_FILE);
+			this.installed = fs.promises
+				.readFile(indexPath, 'utf-8')
+				.then((data) => parseContentIndex(data))
+				.catch((err) => {
+					if (err.code !== 'ENOENT') {
+						this.logger.warn(
+							{ err },
+							'failed to read installed content index, ignoring',
+						);
+					}
+					return { games: {}, maps: {} };
+				});
+		}
+		return this.installed;
+	}
+
+	private async recordInstalled(kind: ContentKind, name: string, entry: ContentEntry) {
+		const installed = await this.loadInstalled();
+		installed[kind][name] = entry;
+		const { contentDir } = this.env.config;
+		const write = this.indexWrite.then(async () => {
+			const tmpPath = path.join(contentDir, STAGING_DIR, INSTALLED_INDEX_FILE);
+			await fs.promises.writeFile(tmpPath, JSON.stringify(installed, null, '\t'));
+			await fs.promises.rename(tmpPath, path.join(contentDir, INSTALLED_INDEX_FILE));
+		});
+		this.indexWrite = write.catch(() => {});
+		await write;
+	}
+}
+
+function localSource(dir: string): ContentSource {
+	return {
+		name: dir,
+		loadIndex: async (signal) =>
+			parseContentIndex(
+				await fs.promises.readFile(path.join(dir, 'index.json'), {
+					encoding: 'utf-8',
+					signal,
+				}),
+			),
+		open: async (kind, file) => {
+			const stream = fs.createReadStream(path.join(dir, kind, file));
+			// Surface errors like missing file before the stream is consumed.
+			await new Promise((resolve, reject) => {
+				stream.once('open', resolve);
+				stream.once('error', reject);
+			});
+			return stream;
+		},
+	};
+}
+
+function httpSource(baseUrl: string): ContentSource {
+	const base = new URL(baseUrl.endsWith('/') ? baseUrl : baseUrl + '/');
+	async function get(url: URL, signal: AbortSignal): Promise<Response> {
+		const res = await fetch(url, { signal });
+		if (!res.ok || !res.body) {
+			throw new Error(`fetching ${url} failed with status ${res.status}`);
+		}
+		return res;
+	}
+	return {
+		name: base.toString(),
+		loadIndex: async (signal) =>
+			parseContentIndex(await (await get(new URL('index.json', base), signal)).text()),
+		open: async (kind, file, signal) => {
+			const res = await get(new URL(`${kind}/${encodeURIComponent(file)}`, base), signal);
+			return Readable.fromWeb(res.body!);
+		},
+	};
+}
+
+/**
+ * Parse and validate the content index.
+ */
+export function parseContentIndex(data: string): ContentIndex {
+	const index = JSON.parse(data);
+	if (!validateContentIndex(index)) {
+		throw new Error(`invalid content index: ${ajv.errorsText(validateContentIndex.errors)}`);
+	}
+	return index;
+}
@@ -0,0 +1,510 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module responsible for exporting demos of finished battles to external storage.
+ */
+import { createHash, createHmac } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { setTimeout } from 'node:timers/promises';
+import fs from 'node:fs';
+import * as path from 'node:path';
+import { Environment } from './environment.js';
+import { INSTANCES_DIR, type InstancesManager } from './instances.js';
+import { CRASH_REPORT_FILE } from './engineRunner.js';
+
+interface Config {
+	demoExportSink: 'none' | 'local' | 'http' | 's3';
+	demoExportDir: string | null;
+	demoExportUrlTemplate: string | null;
+	demoExportS3Endpoint: string | null;
+	demoExportS3Bucket: string | null;
+	demoExportS3Region: string;
+	demoExportS3KeyPrefix: string;
+	demoExportS3AccessKeyId: string | null;
+	demoExportS3SecretAccessKey: string | null;
+	demoExportMaxAttempts: number;
+	demoExportRetryDelaySeconds: number;
+	demoExportTimeoutSeconds: number;
+}
+
+export type Env = Environment<Config>;
+
+// File in the instance directory recording the outcome of the demo export.
+export const DEMO_EXPORT_FILE = 'demo-export.json';
+
+// File in the instance directory recording the outcome of the crash logs
+// export.
+export const CRASH_LOGS_EXPORT_FILE = 'crash-logs-export.json';
+
+// Logs in the instance directory exported for crashed battles.
+export const CRASH_LOG_FILES = ['infolog.txt', CRASH_REPORT_FILE];
+
+/**
+ * Outcome of the export of a single file.
+ */
+export interface ExportOutcome {
+	status: 'exported' | 'failed';
+	attempts: number;
+	// Where the file was exported to, when it succeeded.
+	location?: string;
+	error?: string;
+}
+
+/**
+ * Outcome of the demo export recorded in the instance directory.
+ */
+export interface DemoExportResult extends ExportOutcome {
+	// Path of the demo relative to the instance directory.
+	demo: string;
+}
+
+/**
+ * Outcome of the crash logs export recorded in the instance directory, by
+ * the path of the log relative to the instance directory.
+ */
+export type CrashLogsExportResult = { [log: string]: ExportOutcome };
+
+/**
+ * Storage the demos are uploaded to.
+ */
+export interface DemoSink {
+	/**
+	 * Upload the file under the given name.
+	 *
+	 * @param name Relative name of the object, `<battleId>/<demo file name>`.
+	 * @returns Location of the uploaded file for logs and records.
+	 */
+	upload(file: string, name: string, signal: AbortSignal): Promise<string>;
+}
+
+export interface DemoExporter {
+	/**
+	 * Called when the engine started recording the demo so it's kept until
+	 * it's exported.
+	 */
+	demoRecording(battleId: string, demoPath: string): Promise<void>;
+
+	/**
+	 * Export the demo of finished battle, retrying on failures, and record
+	 * the outcome in the instance directory.
+	 *
+	 * @returns Whether the export succeeded, never rejects.
+	 */
+	exportDemo(battleId: string, demoPath: string): Promise<boolean>;
+
+	/**
+	 * Called when the battle crashed, so its logs are kept until they are
+	 * exported.
+	 */
+	crashLogsPending(battleId: string): Promise<void>;
+
+	/**
+	 * Export the logs of the crashed battle to the same sink as demos,
+	 * retrying on failures, and record the outcome in the instance directory.
+	 *
+	 * @returns Whether all the logs were exported, never rejects.
+	 */
+	exportCrashLogs(battleId: string): Promise<boolean>;
+}
+
+/**
+ * DemoExporterImpl uploads demos of finished battles to the configured
+ * `demoExportSink`: a local archive directory, HTTP PUT endpoint, or S3
+ * compatible object storage.
+ *
+ * Demos are flagged as pending export in the instance directory from the
+ * moment the engine starts recording them, so they aren't removed by the
+ * instance retention policy before they are exported. The same goes for the
+ * infolog and crash report of crashed battles, from the moment the battle
+ * exited. If all attempts to export a file fail, it stays flagged, and the
+ * export is retried on the next start of autohost.
+ */
+export class DemoExporterImpl implements DemoExporter {
+	private logger: Env['logger'];
+	private sink: DemoSink | null;
+
+	constructor(
+		private env: Env,
+		private instances?: Pick<
+			InstancesManager,
+			'markPendingExport' | 'markExported' | 'pendingExports'
+		>,
+		sink?: DemoSink,
+	) {
+		this.logger = env.logger.child({ class: 'DemoExporter' });
+		this.sink = sink ?? createSink(env.config);
+	}
+
+	async demoRecording(battleId: string, demoPath: string): Promise<void> {
+		if (!this.sink) return;
+		await this.instances?.markPendingExport(battleId, relativeDemoPath(battleId, demoPath));
+	}
+
+	async exportDemo(battleId: string, demoPath: string): Promise<boolean> {
+		if (!this.sink) return false;
+		const logger = this.logger.child({ battleId });
+		const instanceDir = path.join(INSTANCES_DIR, battleId);
+		const demo = relativeDemoPath(battleId, demoPath);
+
+		const outcome = await this.exportFile(logger, battleId, demo);
+		if (outcome.status === 'exported') {
+			logger.info({ location: outcome.location }, 'exported demo');
+		} else {
+			logger.error({ attempts: outcome.attempts }, 'giving up on exporting demo');
+		}
+		try {
+			const result: DemoExportResult = { demo, ...outcome };
+			await fs.promises.writeFile(
+				path.join(instanceDir, DEMO_EXPORT_FILE),
+				JSON.stringify(result),
+			);
+			if (outcome.status === 'exported') {
+				await this.instances?.markExported(battleId, demo);
+			}
+		} catch (err) {
+			logger.error(err, 'failed to record demo export result');
+		}
+		return outcome.status === 'exported';
+	}
+
+	async crashLogsPending(battleId: string): Promise<void> {
+		if (!this.sink) return;
+		for (const log of await existingCrashLogs(battleId)) {
+			await this.instances?.markPendingExport(battleId, log);
+		}
+	}
+
+	async exportCrashLogs(battleId: string): Promise<boolean> {
+		if (!this.sink) return false;
+		const logger = this.logger.child({ battleId });
+		const instanceDir = path.join(INSTANCES_DIR, battleId);
+
+		const result: CrashLogsExportResult = {};
+		for (const log of await existingCrashLogs(battleId)) {
+			result[log] = await this.exportFile(logger, battleId, log);
+		}
+		const exported = Object.values(result).every((o) => o.status === 'exported');
+		if (exported) {
+			logger.info('exported crash logs');
+		} else {
+			logger.error('giving up on exporting crash logs');
+		}
+		try {
+			await fs.promises.writeFile(
+				path.join(instanceDir, CRASH_LOGS_EXPORT_FILE),
+				JSON.stringify(result),
+			);
+			for (const [log, { status }] of Object.entries(result)) {
+				if (status === 'exported') {
+					await this.instances?.markExported(battleId, log);
+				}
+			}
+		} catch (err) {
+			logger.error(err, 'failed to record crash logs export result');
+		}
+		return exported;
+	}
+
+	/**
+	 * Retry the exports left pending by the previous run of autohost, e.g.
+	 * when it was restarted while exporting or all the attempts failed.
+	 *
+	 * Never rejects.
+	 */
+	async resumePendingExports(): Promise<void> {
+		if (!this.sink || !this.instances) return;
+		let pending;
+		try {
+			pending = await this.instances.pendingExports();
+		} catch (err) {
+			this.logger.error(err, 'failed to list pending exports');
+			return;
+		}
+		const crashedBattles = new Set<string>();
+		for (const { battleId, artifact } of pending) {
+			if (!CRASH_LOG_FILES.includes(artifact)) {
+				this.logger.info({ battleId, demo: artifact }, 'resuming demo export');
+				await this.exportDemo(battleId, artifact);
+			} else if (!crashedBattles.has(battleId)) {
+				crashedBattles.add(battleId);
+				this.logger.info({ battleId }, 'resuming crash logs export');
+				await this.exportCrashLogs(battleId);
+			}
+		}
+	}
+
+	/**
+	 * Upload the file from the instance directory to the sink, retrying on
+	 * failures.
+	 *
+	 * @param file Path of the file relative to the instance directory.
+	 */
+	private async exportFile(
+		logger: Env['logger'],
+		battleId: string,
+		file: string,
+	): Promise<ExportOutcome> {
+		const { demoExportMaxAttempts, demoExportRetryDelaySeconds, demoExportTimeoutSeconds } =
+			this.env.config;
+		const absPath = path.resolve(INSTANCES_DIR, battleId, file);
+		const name = `${battleId}/${path.basename(absPath)}`;
+
+		const outcome: ExportOutcome = { status: 'failed', attempts: 0 };
+		for (let attempt = 1; attempt <= demoExportMaxAttempts; ++attempt) {
+			outcome.attempts = attempt;
+			try {
+				const signal = AbortSignal.timeout(demoExportTimeoutSeconds * 1000);
+				outcome.location = await this.sink!.upload(absPath, name, signal);
+				outcome.status = 'exported';
+				delete outcome.error;
+				break;
+			} catch (err) {
+				outcome.error = err instanceof Error ? err.message : String(err);
+				logger.warn({ err, file, attempt }, 'failed to export file');
+			}
+			if (attempt < demoExportMaxAttempts) {
+				await setTimeout(demoExportRetryDelaySeconds * 1000 * 2 ** (attempt - 1));
+			}
+		}
+		return outcome;
+	}
+}
+
+// Crash logs the engine wrote, relative to the instance directory.
+async function existingCrashLogs(battleId: string): Promise<string[]> {
+	const logs = [];
+	for (const log of CRASH_LOG_FILES) {
+		const stat = await fs.promises
+			.stat(path.join(INSTANCES_DIR, battleId, log))
+			.catch(() => null);
+		if (stat?.isFile()) logs.push(log);
+	}
+	return logs;
+}
+
+// The engine reports the demo path either relative to its write directory,
+// the instance directory, or absolute.
+function relativeDemoPath(battleId: string, demoPath: string): string {
+	const instanceDir = path.resolve(INSTANCES_DIR, battleId);
+	return path.relative(instanceDir, path.resolve(instanceDir, demoPath));
+}
+
+function createSink(config: Config): DemoSink | null {
+	switch (config.demoExportSink) {
+		case 'none':
+			return null;
+		case 'local':
+			if (!config.demoExportDir) {
+				throw new Error('demoExportDir must be set for local demo export');
+			}
+			return new LocalDemoSink(config.demoExportDir);
+		case 'http':
+			if (!config.demoExportUrlTemplate) {
+				throw new Error('demoExportUrlTemplate must be set for http demo export');
+			}
+			return new HttpDemoSink(config.demoExportUrlTemplate);
+		case 's3':
+			if (
+				!config.demoExportS3Endpoint ||
+				!config.demoExportS3Bucket ||
+				!config.demoExportS3AccessKeyId ||
+				!config.demoExportS3SecretAccessKey
+			) {
+				throw new Error(
+					'demoExportS3Endpoint, demoExportS3Bucket and credentials must be set for s3 demo export',
+				);
+			}
+			return new S3DemoSink({
+				endpoint: config.demoExportS3Endpoint,
+				bucket: config.demoExportS3Bucket,
+				region: config.demoExportS3Region,
+				keyPrefix: config.demoExportS3KeyPrefix,
+				accessKeyId: config.demoExportS3AccessKeyId,
+				secretAccessKey: config.demoExportS3SecretAccessKey,
+			});
+	}
+}
+
+/**
+ * Copies demos into `<dir>/<battleId>/<demo file name>`.
+ */
+export class LocalDemoSink implements DemoSink {
+	constructor(private dir: string) {}
+
+	async upload(file: string, name: string, signal: AbortSignal): Promise<string> {
+		const dest = path.resolve(this.dir, name);
+		await fs.promises.mkdir(path.dirname(dest), { recursive: true });
+		// Copy under temporary name first so the archive never contains
+		// partial demos.
+		const tmp = `${dest}.tmp`;
+		try {
+			await pipeline(fs.createReadStream(file), fs.createWriteStream(tmp), { signal });
+			await fs.promises.rename(tmp, dest);
+		} finally {
+			await fs.promises.rm(tmp, { force: true });
+		}
+		return dest;
+	}
+}
+
+/**
+ * Uploads demos with HTTP PUT to the URL from template with `{battleId}` and
+ * `{file}` placeholders.
+ */
+export class HttpDemoSink implements DemoSink {
+	constructor(private urlTemplate: string) {}
+
+	async upload(file: string, name: string, signal: AbortSignal): Promise<string> {
+		const [battleId, fileName] = name.split('/');
+		const url = this.urlTemplate
+			.replaceAll('{battleId}', encodeURIComponent(battleId))
+			.replaceAll('{file}', encodeURIComponent(fileName));
+		await putFile(url, file, {}, signal);
+		return url;
+	}
+}
+
+interface S3Options {
+	endpoint: string;
+	bucket: string;
+	region: string;
+	keyPrefix: string;
+	accessKeyId: string;
+	secretAccessKey: string;
+}
+
+/**
+ * Uploads demos to the S3 compatible object storage with path style URLs
+ * and requests signed with AWS Signature Version 4.
+ */
+export class S3DemoSink implements DemoSink {
+	constructor(private opts: S3Options) {}
+
+	async upload(file: string, name: string, signal: AbortSignal): Promise<string> {
+		const { endpoint, bucket, region, keyPrefix, accessKeyId, secretAccessKey } = this.opts;
+		const key = keyPrefix + name;
+		const url = new URL(endpoint);
+		const basePath = url.pathname.replace(/\/$/, '');
+		url.pathname = [basePath, ...[bucket, ...key.split('/')].map(encodeRfc3986)].join('/');
+
+		const hash = createHash('sha256');
+		await pipeline(fs.createReadStream(file), hash, { signal });
+		const payloadHash = hash.digest('hex');
+
+		const headers = signAwsV4({
+			method: 'PUT',
+			url,
+			headers: { 'x-amz-content-sha256': payloadHash },
+			payloadHash,
+			region,
+			service: 's3',
+			accessKeyId,
+			secretAccessKey,
+			date: new Date(),
+		});
+		await putFile(url.toString(), file, headers, signal);
+		return `s3://${bucket}/${key}`;
+	}
+}
+
+async function putFile(
+	url: string,
+	file: string,
+	headers: { [k: string]: string },
+	signal: AbortSignal,
+): Promise<void> {
+	const { size } = await fs.promises.stat(file);
+	const res = await fetch(url, {
+		method: 'PUT',
+		headers: {
+			...headers,
+			'content-type': 'application/octet-stream',
+			'content-length': size.toString(),
+		},
+		body: Readable.toWeb(fs.createReadStream(file)) as ReadableStream,
+		duplex: 'half',
+		signal,
+	});
+	if (!res.ok) {
+		throw new Error(`uploading to ${url} failed with status ${res.status}`);
+	}
+	await res.body?.cancel();
+}
+
+// Like encodeURIComponent, but also encodes characters reserved by RFC 3986
+// as required by AWS signatures.
+function encodeRfc3986(s: string): string {
+	return encodeURIComponent(s).replace(
+		/[!'()*]/g,
+		(c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+	);
+}
+
+interface AwsV4Request {
+	method: string;
+	url: URL;
+	// Headers to sign besides host and x-amz-date that are always added.
+	headers: { [k: string]: string };
+	payloadHash: string;
+	region: string;
+	service: string;
+	accessKeyId: string;
+	secretAccessKey: string;
+	date: Date;
+}
+
+/**
+ * Sign the request with AWS Signature Version 4.
+ *
+ * The url pathname must be already URI encoded as expected by the service.
+ *
+ * @returns Headers to send with the request, including the Authorization.
+ */
+export function signAwsV4(req: AwsV4Request): { [k: string]: string } {
+	const amzDate = req.date.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+	const day = amzDate.slice(0, 8);
+	const headers: { [k: string]: string } = {
+		...Object.fromEntries(
+			Object.entries(req.headers).map(([k, v]) => [k.toLowerCase(), v.trim()]),
+		),
+		'host': req.url.host,
+		'x-amz-date': amzDate,
+	};
+	const headerNames = Object.keys(headers).sort();
+	const query = [...req.url.searchParams]
+		.map(([k, v]) => `${encodeRfc3986(k)}=${encodeRfc3986(v)}`)
+		.sort()
+		.join('&');
+	const canonicalRequest = [
+		req.method,
+		req.url.pathname,
+		query,
+		...headerNames.map((name) => `${name}:${headers[name]}`),
+		'',
+		headerNames.join(';'),
+		req.payloadHash,
+	].join('\n');
+
+	const scope = `${day}/${req.region}/${req.service}/aws4_request`;
+	const stringToSign = [
+		'AWS4-HMAC-SHA256',
+		amzDate,
+		scope,
+		createHash('sha256').update(canonicalRequest).digest('hex'),
+	].join('\n');
+
+	let key: Buffer = Buffer.from(`AWS4${req.secretAccessKey}`);
+	for (const part of [day, req.region, req.service, 'aws4_request']) {
+		key = createHmac('sha256', key).update(part).digest();
+	}
+	const signature = createHmac('sha256', key).update(stringToSign).digest('hex');
+
+	delete headers['host'];
+	headers['authorization'] =
+		`AWS4-HMAC-SHA256 Credential=${req.accessKeyId}/${scope}, ` +
+		`SignedHeaders=${headerNames.join(';')}, Signature=${signature}`;
+	return headers;
+}
@@ -0,0 +1,111 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { suite, test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { pino } from 'pino';
+import { mkdtemp, mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { setupEngineLimits, type Env } from './engineLimits.js';
+
+const logger = pino({ level: 'silent' });
+
+function getEnv(config: Partial<Env['config']>): Env {
+	return {
+		logger,
+		config: {
+			engineCgroupParent: null,
+			engineMemoryLimitMB: null,
+			engineCpuLimit: null,
+			enginePidsLimit: null,
+			...config,
+		},
+	};
+}
+
+suite('setupEngineLimits', () => {
+	let testDir: string;
+
+	beforeEach(async () => {
+		testDir = await mkdtemp(join(tmpdir(), 'engine-limits-test-'));
+	});
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true });
+	});
+
+	test('no limits configured', async () => {
+		assert.equal(
+			await setupEngineLimits(getEnv({ engineCgroupParent: testDir }), logger, 'b1'),
+			null,
+		);
+	});
+
+	test('creates cgroup with limits', async () => {
+		const env = getEnv({
+			engineCgroupParent: testDir,
+			engineMemoryLimitMB: 512,
+			engineCpuLimit: 1.5,
+			enginePidsLimit: 64,
+		});
+		const limits = (await setupEngineLimits(env, logger, 'battle/1'))!;
+		const cgroupDir = join(testDir, 'battle_1');
+		const read = (file: string) => readFile(join(cgroupDir, file), 'utf-8');
+		assert.equal(await read('memory.max'), `${512 * 1024 * 1024}\n`);
+		assert.equal(await read('cpu.max'), '150000 100000\n');
+		assert.equal(await read('pids.max'), '64\n');
+
+		assert.deepEqual(limits.wrap('/engine', ['script.txt']), {
+			command: '/bin/sh',
+			args: [
+				'-c',
+				'echo $$ > "$0" && exec "$@"',
+				join(cgroupDir, 'cgroup.procs'),
+				'/engine',
+				'script.txt',
+			],
+		});
+
+		assert.equal(await limits.oomKilled(), false);
+		await writeFile(join(cgroupDir, 'memory.events'), 'low 0\noom 0\noom_kill 0\n');
+		assert.equal(await limits.oomKilled(), false);
+		await writeFile(join(cgroupDir, 'memory.events'), 'low 0\noom 2\noom_kill 1\n');
+		assert.equal(await limits.oomKilled(), true);
+	});
+
+	test('removes cgroup on close', async () => {
+		const env = getEnv({ engineCgroupParent: testDir, enginePidsLimit: 64 });
+		const limits = (await setupEngineLimits(env, logger, 'b1'))!;
+		// Real cgroup directories can be removed with the control files.
+		await rm(join(testDir, 'b1', 'pids.max'));
+		await limits.close();
+		assert.deepEqual(await readdir(testDir), []);
+	});
+
+	test('falls back to prlimit without cgroups', async () => {
+		const env = getEnv({
+			engineCgroupParent: join(testDir, 'missing'),
+			engineMemoryLimitMB: 100,
+			enginePidsLimit: 64,
+		});
+		const limits = (await setupEngineLimits(env, logger, 'b1'))!;
+		assert.deepEqual(limits.wrap('/engine', ['script.txt']), {
+			command: 'prlimit',
+			args: [`--as=${100 * 1024 * 1024}`, '--', '/engine', 'script.txt'],
+		});
+		assert.equal(await limits.oomKilled(), false);
+	});
+
+	test('only CPU limit without cgroups is not enforced', async () => {
+		const env = getEnv({ engineCpuLimit: 2 });
+		assert.equal(await setupEngineLimits(env, logger, 'b1'), null);
+	});
+
+	test('reuses existing cgroup', async () => {
+		await mkdir(join(testDir, 'b1'));
+		const env = getEnv({ engineCgroupParent: testDir, enginePidsLimit: 10 });
+		assert.ok(await setupEngineLimits(env, logger, 'b1'));
+	});
+});
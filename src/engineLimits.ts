@@ -0,0 +1,167 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module limiting the memory, CPU and number of processes of the engine.
+ *
+ * The limits are applied by wrapping the engine command, so the engine is
+ * already limited when it starts:
+ *
+ * - With cgroups v2, every engine gets its own cgroup created in the
+ *   `engineCgroupParent` delegated to autohost, and a shell moves itself to
+ *   it before executing the engine.
+ * - Without cgroups, `prlimit` sets the address space rlimit before
+ *   executing the engine. CPU and process limits are not supported by rlimits
+ *   in an equivalent way, so they are not enforced then.
+ */
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Environment } from './environment.js';
+
+interface Config {
+	engineCgroupParent: string | null;
+	engineMemoryLimitMB: number | null;
+	engineCpuLimit: number | null;
+	enginePidsLimit: number | null;
+}
+
+export type Env = Environment<Config>;
+
+// Period of the cpu.max quota, the kernel default.
+const CPU_MAX_PERIOD_US = 100000;
+
+/**
+ * Limits applied to a single engine process.
+ */
+export interface EngineLimits {
+	/**
+	 * Wrap the engine command so that it runs with the limits applied.
+	 */
+	wrap(command: string, args: string[]): { command: string; args: string[] };
+
+	/**
+	 * Whether the engine was killed for exceeding the memory limit.
+	 */
+	oomKilled(): Promise<boolean>;
+
+	/**
+	 * Release the limits after the engine exited, never rejects.
+	 */
+	close(): Promise<void>;
+}
+
+class CgroupLimits implements EngineLimits {
+	constructor(
+		private cgroupDir: string,
+		private logger: Env['logger'],
+	) {}
+
+	wrap(command: string, args: string[]) {
+		// The shell moves itself to the cgroup and then becomes the engine, so
+		// the engine keeps the pid of the spawned process.
+		return {
+			command: '/bin/sh',
+			args: [
+				'-c',
+				'echo $$ > "$0" && exec "$@"',
+				path.join(this.cgroupDir, 'cgroup.procs'),
+				command,
+				...args,
+			],
+		};
+	}
+
+	async oomKilled(): Promise<boolean> {
+		try {
+			const events = await fs.readFile(path.join(this.cgroupDir, 'memory.events'), 'utf-8');
+			const oomKill = events.match(/^oom_kill (\d+)$/m);
+			return oomKill !== null && parseInt(oomKill[1], 10) > 0;
+		} catch (err) {
+			this.logger.warn(err, 'failed to read engine cgroup memory events');
+			return false;
+		}
+	}
+
+	async close(): Promise<void> {
+		try {
+			await fs.rmdir(this.cgroupDir);
+		} catch (err) {
+			this.logger.warn(err, 'failed to remove engine cgroup');
+		}
+	}
+}
+
+class PrlimitLimits implements EngineLimits {
+	constructor(private memoryLimitBytes: number) {}
+
+	wrap(command: string, args: string[]) {
+		return {
+			command: 'prlimit',
+			args: [`--as=${this.memoryLimitBytes}`, '--', command, ...args],
+		};
+	}
+
+	async oomKilled(): Promise<boolean> {
+		// Allocations above the rlimit fail, the engine crashes on its own.
+		return false;
+	}
+
+	async close(): Promise<void> {}
+}
+
+/**
+ * Prepare limits for a new engine according to the configuration.
+ *
+ * @param name Unique name of the engine, used for the cgroup name.
+ * @returns Limits or null when no limits are configured.
+ */
+export async function setupEngineLimits(
+	env: Env,
+	logger: Env['logger'],
+	name: string,
+): Promise<EngineLimits | null> {
+	const { engineCgroupParent, engineMemoryLimitMB, engineCpuLimit, enginePidsLimit } = env.config;
+	if (engineMemoryLimitMB == null && engineCpuLimit == null && enginePidsLimit == null) {
+		return null;
+	}
+	const memoryLimitBytes = engineMemoryLimitMB != null ? engineMemoryLimitMB * 1024 * 1024 : null;
+
+	if (engineCgroupParent) {
+		const cgroupDir = path.resolve(engineCgroupParent, name.replace(/[^\w-]/g, '_'));
+		try {
+			await setupCgroup(cgroupDir, memoryLimitBytes, engineCpuLimit, enginePidsLimit);
+			return new CgroupLimits(cgroupDir, logger);
+		} catch (err) {
+			logger.warn(err, 'failed to set up engine cgroup, falling back to rlimits');
+			await fs.rmdir(cgroupDir).catch(() => {});
+		}
+	}
+
+	if (engineCpuLimit != null || enginePidsLimit != null) {
+		logger.warn('engine CPU and pids limits require cgroups, not enforcing them');
+	}
+	return memoryLimitBytes != null ? new PrlimitLimits(memoryLimitBytes) : null;
+}
+
+async function setupCgroup(
+	cgroupDir: string,
+	memoryLimitBytes: number | null,
+	cpuLimit: number | null,
+	pidsLimit: number | null,
+) {
+	// The parent must already exist, it's the cgroup delegated to autohost.
+	await fs.mkdir(cgroupDir).catch((err) => {
+		if (err.code !== 'EEXIST') throw err;
+	});
+	if (memoryLimitBytes != null) {
+		await fs.writeFile(path.join(cgroupDir, 'memory.max'), `${memoryLimitBytes}\n`);
+	}
+	if (cpuLimit != null) {
+		const quota = Math.round(cpuLimit * CPU_MAX_PERIOD_US);
+		await fs.writeFile(path.join(cgroupDir, 'cpu.max'), `${quota} ${CPU_MAX_PERIOD_US}\n`);
+	}
+	if (pidsLimit != null) {
+		await fs.writeFile(path.join(cgroupDir, 'pids.max'), `${pidsLimit}\n`);
+	}
+}
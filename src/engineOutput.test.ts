@@ -0,0 +1,113 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { suite, test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { pino } from 'pino';
+import { once } from 'node:events';
+import { PassThrough, Writable } from 'node:stream';
+import { setImmediate } from 'node:timers/promises';
+import { mkdtemp, rm, readFile, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { EngineOutputCapture, type Env } from './engineOutput.js';
+
+suite('EngineOutputCapture', () => {
+	let testDir: string;
+
+	beforeEach(async () => {
+		testDir = await mkdtemp(join(tmpdir(), 'engine-output-test-'));
+	});
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true });
+	});
+
+	function getEnv(config: Partial<Env['config']>): Env {
+		return {
+			logger: pino({ level: 'silent' }),
+			config: {
+				engineOutputLogLevel: 'silent',
+				engineOutputTailLines: 100,
+				engineLogMaxSizeMB: 10,
+				engineLogMaxFiles: 1,
+				...config,
+			},
+		};
+	}
+
+	async function captureLines(capture: EngineOutputCapture, stdout: string, stderr: string) {
+		const out = new PassThrough();
+		const err = new PassThrough();
+		capture.capture(out, 'stdout');
+		capture.capture(err, 'stderr');
+		out.end(stdout);
+		err.end(stderr);
+		await once(err, 'end');
+		// Let the file stream flush the last writes.
+		await setImmediate();
+		await setImmediate();
+	}
+
+	test('writes lines to log file and logger', async () => {
+		const logs: { stream: string; msg: string }[] = [];
+		const logger = pino(
+			{ level: 'debug' },
+			new Writable({
+				write(chunk, _enc, cb) {
+					logs.push(JSON.parse(chunk.toString()));
+					cb();
+				},
+			}),
+		);
+		const env = getEnv({ engineOutputLogLevel: 'debug' });
+		const capture = new EngineOutputCapture(env, logger, testDir);
+		await captureLines(capture, 'line 1\nline 2\n', 'error 1\n');
+
+		assert.equal(
+			(await readFile(join(testDir, 'engine.log'), 'utf-8')).split('\n').sort().join('\n'),
+			'\nerror 1\nline 1\nline 2',
+		);
+		assert.deepEqual(logs.map(({ stream, msg }) => [stream, msg]).sort(), [
+			['stderr', 'error 1'],
+			['stdout', 'line 1'],
+			['stdout', 'line 2'],
+		]);
+	});
+
+	test('keeps bounded tail', async () => {
+		const env = getEnv({ engineOutputTailLines: 2 });
+		const capture = new EngineOutputCapture(env, env.logger, testDir);
+		await captureLines(capture, 'line 1\nline 2\nline 3\n', '');
+		assert.deepEqual(capture.tail, ['line 2', 'line 3']);
+	});
+
+	test('keeps tail when log file cannot be written', async () => {
+		const env = getEnv({});
+		const capture = new EngineOutputCapture(env, env.logger, join(testDir, 'missing'));
+		await captureLines(capture, 'line 1\nline 2\n', '');
+		assert.deepEqual(capture.tail, ['line 1', 'line 2']);
+	});
+
+	test('rotates log file', async () => {
+		// 20 bytes, two lines of 10 bytes each.
+		const env = getEnv({ engineLogMaxSizeMB: 20 / 1024 / 1024, engineLogMaxFiles: 2 });
+		const capture = new EngineOutputCapture(env, env.logger, testDir);
+		await captureLines(capture, 'line 0001\nline 0002\nline 0003\nline 0004\nline 0005\n', '');
+		assert.deepEqual((await readdir(testDir)).sort(), [
+			'engine.log',
+			'engine.log.1',
+			'engine.log.2',
+		]);
+		assert.equal(await readFile(join(testDir, 'engine.log'), 'utf-8'), 'line 0005\n');
+		assert.equal(
+			await readFile(join(testDir, 'engine.log.1'), 'utf-8'),
+			'line 0003\nline 0004\n',
+		);
+		assert.equal(
+			await readFile(join(testDir, 'engine.log.2'), 'utf-8'),
+			'line 0001\nline 0002\n',
+		);
+	});
+});
@@ -0,0 +1,171 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module capturing the standard output and error of the engine process.
+ */
+import fs from 'node:fs';
+import * as path from 'node:path';
+import * as readline from 'node:readline';
+import type { Readable } from 'node:stream';
+import type { LevelWithSilent } from 'pino';
+import { Environment } from './environment.js';
+
+interface Config {
+	engineOutputLogLevel: LevelWithSilent;
+	engineOutputTailLines: number;
+	engineLogMaxSizeMB: number;
+	engineLogMaxFiles: number;
+}
+
+export type Env = Environment<Config>;
+
+// Name of the log file with engine output in the instance directory, rotated
+// files get `.1`, `.2`, ... suffixes, the higher the older.
+export const ENGINE_LOG_FILE = 'engine.log';
+
+// Lines kept in the tail are truncated to this many characters so the tail
+// stays bounded even if engine prints something huge without newlines.
+const MAX_TAIL_LINE_LENGTH = 1024;
+
+/**
+ * EngineOutputCapture writes engine output line by line into the rotating
+ * log file in the instance directory, forwards it to the logger, and keeps the
+ * last `engineOutputTailLines` lines in memory.
+ *
+ * Failure to write the log file is logged once and doesn't affect the other
+ * two, so the tail is always available.
+ */
+export class EngineOutputCapture {
+	private tailLines: string[] = [];
+	private file: fs.WriteStream | null = null;
+	private fileSize = 0;
+	private logPath: string;
+	private fileFailed = false;
+	private openStreams = 0;
+	private allClosed = Promise.withResolvers<void>();
+
+	/**
+	 * @param logger Logger to forward lines to, usually with battleId binding.
+	 */
+	constructor(
+		private env: Env,
+		private logger: Env['logger'],
+		instanceDir: string,
+	) {
+		this.logPath = path.join(instanceDir, ENGINE_LOG_FILE);
+	}
+
+	/**
+	 * Start capturing lines from the stream.
+	 *
+	 * The log file is closed once all captured streams end.
+	 */
+	capture(stream: Readable, name: 'stdout' | 'stderr') {
+		this.openStreams += 1;
+		const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+		lines.on('line', (line) => this.handleLine(line, name));
+		lines.on('close', () => {
+			this.openStreams -= 1;
+			if (this.openStreams === 0) {
+				this.file?.end();
+				this.file = null;
+				this.allClosed.resolve();
+			}
+		});
+	}
+
+	/**
+	 * Resolves when all captured streams ended, so the tail is complete.
+	 */
+	get closed(): Promise<void> {
+		if (this.openStreams === 0) {
+			return Promise.resolve();
+		}
+		return this.allClosed.promise;
+	}
+
+	/**
+	 * The last lines of the engine output, the oldest first.
+	 */
+	get tail(): string[] {
+		return [...this.tailLines];
+	}
+
+	private handleLine(line: string, stream: 'stdout' | 'stderr') {
+		const { engineOutputLogLevel, engineOutputTailLines } = this.env.config;
+
+		this.tailLines.push(line.slice(0, MAX_TAIL_LINE_LENGTH));
+		if (this.tailLines.length > engineOutputTailLines) {
+			this.tailLines.shift();
+		}
+
+		if (engineOutputLogLevel !== 'silent') {
+			this.logger[engineOutputLogLevel]({ stream }, line);
+		}
+
+		this.writeLine(line + '\n');
+	}
+
+	private writeLine(data: string) {
+		if (this.fileFailed) {
+			return;
+		}
+		const size = Buffer.byteLength(data);
+		try {
+			if (this.fileSize > 0 && this.fileSize + size > this.maxFileSize) {
+				this.rotate();
+			}
+			if (!this.file) {
+				// Opened synchronously so the file exists when it's rotated.
+				const fd = fs.openSync(this.logPath, 'a');
+				this.file = fs.createWriteStream('', { fd });
+				this.file.on('error', (err) => this.disableFile(err));
+			}
+		} catch (err) {
+			this.disableFile(err);
+			return;
+		}
+		this.file.write(data);
+		this.fileSize += size;
+	}
+
+	private get maxFileSize(): number {
+		return this.env.config.engineLogMaxSizeMB * 1024 * 1024;
+	}
+
+	/**
+	 * Shift the rotated files and move the current one to `.1`.
+	 *
+	 * The data still buffered in the old stream ends up in the renamed file as
+	 * the open file descriptor follows the rename.
+	 */
+	private rotate() {
+		this.file?.end();
+		this.file = null;
+		this.fileSize = 0;
+		const maxFiles = this.env.config.engineLogMaxFiles;
+		fs.rmSync(`${this.logPath}.${maxFiles}`, { force: true });
+		for (let i = maxFiles - 1; i >= 1; --i) {
+			if (fs.existsSync(`${this.logPath}.${i}`)) {
+				fs.renameSync(`${this.logPath}.${i}`, `${this.logPath}.${i + 1}`);
+			}
+		}
+		if (maxFiles > 0) {
+			fs.renameSync(this.logPath, `${this.logPath}.1`);
+		} else {
+			fs.rmSync(this.logPath, { force: true });
+		}
+	}
+
+	private disableFile(err: unknown) {
+		if (this.fileFailed) {
+			return;
+		}
+		this.logger.error({ err, path: this.logPath }, 'failed to write engine log file');
+		this.fileFailed = true;
+		this.file?.destroy();
+		this.file = null;
+	}
+}
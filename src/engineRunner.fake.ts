@@ -12,10 +12,11 @@ import { EngineRunner, EngineRunnerEvents, runEngine } from './engineRunner.js';
 export class EngineRunnerFake extends TypedEmitter<EngineRunnerEvents> implements EngineRunner {
 	private stopped = false;
 
-	constructor() {
+	// With autoStart false, the fake simulates engine stuck on startup.
+	constructor(autoStart: boolean = true) {
 		super();
 		setImmediate(() => {
-			if (!this.stopped) {
+			if (autoStart && !this.stopped) {
 				this.emit('start');
 			}
 		});
@@ -31,6 +32,10 @@ export class EngineRunnerFake extends TypedEmitter<EngineRunnerEvents> implement
 	});
 
 	sendPacket = mock.fn(async () => {});
+
+	outputTail: string[] = [];
+
+	pid: number | undefined = undefined;
 }
 
 export const fakeRunEngine: typeof runEngine = function () {
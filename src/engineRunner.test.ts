@@ -6,13 +6,14 @@ import test, { suite } from 'node:test';
 import assert from 'node:assert/strict';
 import dgram from 'node:dgram';
 import events from 'node:events';
-import { mkdtemp, mkdir, rm } from 'node:fs/promises';
-import { join } from 'node:path';
+import { mkdtemp, mkdir, rm, readFile } from 'node:fs/promises';
+import { writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
 import { tmpdir } from 'node:os';
 import type { AutohostStartRequestData } from 'tachyon-protocol/types';
-import { setImmediate as asyncSetImmediate } from 'timers/promises';
+import { setImmediate as asyncSetImmediate, setTimeout } from 'timers/promises';
 
-import { runEngine, EngineRunnerImpl } from './engineRunner.js';
+import { runEngine, EngineRunnerImpl, EngineCrashError, type Env } from './engineRunner.js';
 import { chdir } from 'node:process';
 import { ChildProcess, spawn, type SpawnOptions } from 'node:child_process';
 import { pino } from 'pino';
@@ -57,10 +58,32 @@ const optsBase = {
 	autohostPort: testPort,
 };
 
-function getEnv(spawnMock?: typeof spawn) {
+function getEnv(spawnMock?: typeof spawn): Env {
 	return {
 		logger: pino({ level: 'silent' }),
-		config: { engineSettings: {} },
+		config: {
+			engineSettings: {},
+			contentRoots: [],
+			contentDir: 'content',
+			contentStoreDir: null,
+			contentMirrorUrl: null,
+			engineOutputLogLevel: 'silent',
+			engineOutputTailLines: 100,
+			engineLogMaxSizeMB: 10,
+			engineLogMaxFiles: 1,
+			crashReportLines: 50,
+			engineShutdownGraceSeconds: 10,
+			engineSigtermTimeoutSeconds: 20,
+			engineWatchdogSilenceSeconds: null,
+			engineWatchdogCheckCpu: true,
+			engineCgroupParent: null,
+			engineMemoryLimitMB: null,
+			engineCpuLimit: null,
+			enginePidsLimit: null,
+			engineSandbox: 'none',
+			engineSandboxCommand: 'unshare',
+			engineSandboxHiddenPaths: [],
+		},
 		mocks: { spawn: spawnMock },
 	};
 }
@@ -111,6 +134,92 @@ suite('engineRunner', () => {
 		await events.once(er, 'exit');
 	});
 
+	test('engineRunner captures engine output', async () => {
+		const er = new EngineRunnerImpl(
+			getEnv(((_cmd: string, _args: string[], opts: SpawnOptions) => {
+				return spawn('sh', ['-c', 'echo out; echo err >&2'], opts);
+			}) as typeof spawn),
+		);
+		er._run(optsBase);
+		await events.once(er, 'exit');
+		await setTimeout(50);
+		assert.deepEqual(er.outputTail.sort(), ['err', 'out']);
+		const log = await readFile(
+			join('instances', optsBase.startRequest.battleId, 'engine.log'),
+			'utf-8',
+		);
+		assert.deepEqual(log.trim().split('\n').sort(), ['err', 'out']);
+	});
+
+	test('engineRunner reports engine crash', async () => {
+		const er = new EngineRunnerImpl(
+			getEnv(((_cmd: string, _args: string[], opts: SpawnOptions) => {
+				const script =
+					'echo starting; echo "[t=00:00:01] Error: boom" > infolog.txt; kill -SEGV $$';
+				return spawn('sh', ['-c', script], opts);
+			}) as typeof spawn),
+		);
+		er._run(optsBase);
+		// Not events.once as it would reject on the error event.
+		const exited = new Promise<void>((resolve) => er.once('exit', resolve));
+		const [err] = await events.once(er, 'error');
+		assert.ok(err instanceof EngineCrashError);
+		assert.match(err.message, /^Engine exited with code null, signal SIGSEGV after \d+s$/);
+		assert.equal(err.details, `${err.message}\n[t=00:00:01] Error: boom`);
+		const report = await readFile(
+			join('instances', optsBase.startRequest.battleId, 'crash-report.txt'),
+			'utf-8',
+		);
+		assert.equal(
+			report,
+			`${err.message}\n\n` +
+				'Last 1 lines of infolog.txt:\n[t=00:00:01] Error: boom\n\n' +
+				'Last 1 lines of engine output:\nstarting\n',
+		);
+		await exited;
+	});
+
+	test('engineRunner reports engine killed for exceeding memory limit', async () => {
+		await mkdir('cgroup');
+		const env = getEnv(((cmd: string, args: string[], opts: SpawnOptions) => {
+			assert.equal(cmd, '/bin/sh');
+			const [, , procs, engine] = args;
+			assert.equal(
+				procs,
+				join(testDir, 'cgroup', optsBase.startRequest.battleId, 'cgroup.procs'),
+			);
+			assert.equal(engine, join(testDir, 'engines/test/spring-dedicated'));
+			writeFileSync(join(dirname(procs), 'memory.events'), 'oom 1\noom_kill 1\n');
+			return spawn('sh', ['-c', 'kill -KILL $$'], opts);
+		}) as typeof spawn);
+		env.config.engineCgroupParent = 'cgroup';
+		env.config.engineMemoryLimitMB = 512;
+		const er = new EngineRunnerImpl(env);
+		er._run(optsBase);
+		const exited = new Promise<void>((resolve) => er.once('exit', resolve));
+		const [err] = await events.once(er, 'error');
+		assert.ok(err instanceof EngineCrashError);
+		assert.match(err.message, /signal SIGKILL .*: out of memory, exceeded the 512MB limit$/);
+		await exited;
+	});
+
+	test('engineRunner passes shared data directories', async () => {
+		const env = getEnv(((_cmd: string, args: string[], opts: SpawnOptions) => {
+			assert.ok(!args.includes('-isolation'));
+			assert.equal(opts.env!['SPRING_DATADIR'], `${testDir}/content:/srv/maps`);
+			assert.equal(
+				opts.env!['SPRING_WRITEDIR'],
+				`${testDir}/instances/${optsBase.startRequest.battleId}`,
+			);
+			return spawn('echo', args, opts);
+		}) as typeof spawn);
+		env.config.contentRoots = ['/srv/maps'];
+		env.config.contentMirrorUrl = 'http://localhost/mirror';
+		const er = new EngineRunnerImpl(env);
+		er._run(optsBase);
+		await events.once(er, 'exit');
+	});
+
 	test('engineRunner close before spawn works', async () => {
 		const er = new EngineRunnerImpl(
 			getEnv((() => {
@@ -188,6 +297,173 @@ suite('engineRunner', () => {
 		await events.once(er, 'exit');
 	});
 
+	test('engineRunner asks engine to quit on close', async () => {
+		const er = new EngineRunnerImpl(
+			getEnv((() => {
+				const cp = new ChildProcess();
+				cp.kill = (() => {
+					assert.fail('kill should not be called');
+				}) as typeof ChildProcess.prototype.kill;
+				process.nextTick(() => cp.emit('spawn'));
+				setImmediate(() => simulateEngine(cp));
+				return cp;
+			}) as typeof spawn),
+		);
+		er._run(optsBase);
+
+		async function simulateEngine(cp: ChildProcess) {
+			const s = dgram.createSocket('udp4');
+			s.connect(testPort);
+			await events.once(s, 'connect');
+			s.send(Buffer.from('00', 'hex'));
+
+			const notice = (await events.once(s, 'message')) as [Buffer, dgram.RemoteInfo];
+			assert.match(notice[0].toString('utf8'), /shut down/);
+			const command = (await events.once(s, 'message')) as [Buffer, dgram.RemoteInfo];
+			assert.equal(command[0].toString('utf8'), '/kill');
+
+			// SERVER_QUIT must still reach autohost.
+			s.send(Buffer.from('01', 'hex'));
+			await setTimeout(10);
+			cp.emit('exit', 0, null);
+			s.close();
+		}
+
+		const packets: EventType[] = [];
+		er.on('packet', (packet) => packets.push(packet.type));
+		await events.once(er, 'start');
+		er.close();
+		await events.once(er, 'exit');
+		assert.deepEqual(packets, [EventType.SERVER_STARTED, EventType.SERVER_QUIT]);
+	});
+
+	test('engineRunner terminates engine not quitting on close', async () => {
+		const signals: (NodeJS.Signals | number | undefined)[] = [];
+		const env = getEnv((() => {
+			const cp = new ChildProcess();
+			cp.kill = ((signal) => {
+				signals.push(signal);
+				if (signal == 'SIGKILL') {
+					process.nextTick(() => cp.emit('exit', null, 'SIGKILL'));
+				}
+				return true;
+			}) as typeof ChildProcess.prototype.kill;
+			process.nextTick(() => cp.emit('spawn'));
+			setImmediate(async () => {
+				const s = dgram.createSocket('udp4');
+				s.connect(testPort);
+				await events.once(s, 'connect');
+				s.send(Buffer.from('00', 'hex'));
+				cp.once('exit', () => s.close());
+			});
+			return cp;
+		}) as typeof spawn);
+		env.config.engineShutdownGraceSeconds = 0.05;
+		env.config.engineSigtermTimeoutSeconds = 0.05;
+		const er = new EngineRunnerImpl(env);
+		er._run(optsBase);
+		await events.once(er, 'start');
+		er.close();
+		await setTimeout(20);
+		assert.deepEqual(signals, []);
+		await events.once(er, 'exit');
+		assert.deepEqual(signals, ['SIGTERM', 'SIGKILL']);
+	});
+
+	test('engineRunner terminates sandboxed engine process', async (t) => {
+		const signals: (NodeJS.Signals | number | undefined)[] = [];
+		const env = getEnv((() => {
+			const cp = new ChildProcess();
+			(cp as { pid?: number }).pid = 1234;
+			cp.kill = ((signal) => {
+				signals.push(signal);
+				if (signal == 'SIGKILL') {
+					process.nextTick(() => cp.emit('exit', null, 'SIGKILL'));
+				}
+				return true;
+			}) as typeof ChildProcess.prototype.kill;
+			process.nextTick(() => cp.emit('spawn'));
+			setImmediate(async () => {
+				const s = dgram.createSocket('udp4');
+				s.connect(testPort);
+				await events.once(s, 'connect');
+				s.send(Buffer.from('00', 'hex'));
+				cp.once('exit', () => s.close());
+			});
+			return cp;
+		}) as typeof spawn);
+		env.config.engineSandbox = 'unshare';
+		env.config.engineShutdownGraceSeconds = 0.05;
+		env.config.engineSigtermTimeoutSeconds = 0.05;
+		env.mocks!.findSandboxedPid = async () => 4321;
+		const kill = t.mock.fn((_pid: number, _signal?: string | number): true => true);
+		env.mocks!.kill = kill;
+		const er = new EngineRunnerImpl(env);
+		er._run(optsBase);
+		await events.once(er, 'start');
+		assert.equal(er.pid, 4321);
+		er.close();
+		await events.once(er, 'exit');
+		assert.deepEqual(
+			kill.mock.calls.map((c) => c.arguments),
+			[[4321, 'SIGTERM']],
+		);
+		assert.deepEqual(signals, ['SIGKILL']);
+	});
+
+	test('engineRunner kills unresponsive engine', async (t) => {
+		const { promise: playing, resolve: playingResolve } = Promise.withResolvers<void>();
+		const env = getEnv((() => {
+			const cp = new ChildProcess();
+			(cp as { pid?: number }).pid = 1234;
+			cp.kill = (() => {
+				process.nextTick(() => cp.emit('exit', null, 'SIGTERM'));
+				return true;
+			}) as typeof ChildProcess.prototype.kill;
+			process.nextTick(() => cp.emit('spawn'));
+			setImmediate(async () => {
+				const s = dgram.createSocket('udp4');
+				s.connect(testPort);
+				await events.once(s, 'connect');
+				s.send(Buffer.from('00', 'hex'));
+				await playing;
+				// SERVER_STARTPLAYING with demo path 'd'.
+				s.send(Buffer.from('0216000000' + '00'.repeat(16) + '64', 'hex'));
+				cp.once('exit', () => s.close());
+			});
+			return cp;
+		}) as typeof spawn);
+		env.config.engineWatchdogSilenceSeconds = 30;
+		const readProcStat = t.mock.fn(async () => ({ state: 'S', cpuTicks: 100 }));
+		env.mocks!.readProcStat = readProcStat;
+		const er = new EngineRunnerImpl(env);
+		er._run(optsBase);
+		await events.once(er, 'start');
+
+		t.mock.timers.enable({ apis: ['setInterval', 'Date'], now: Date.now() });
+		playingResolve();
+		await events.once(er, 'packet');
+		const warnings: string[] = [];
+		er.on('warning', (msg) => warnings.push(msg));
+		const errors: Error[] = [];
+		er.on('error', (err) => errors.push(err));
+
+		t.mock.timers.tick(20_000);
+		assert.deepEqual(warnings, []);
+		t.mock.timers.tick(10_000);
+		assert.equal(warnings.length, 1);
+		await setTimeout(0);
+		assert.equal(errors.length, 0);
+		t.mock.timers.tick(10_000);
+		await setTimeout(0);
+		assert.equal(warnings.length, 1);
+		assert.equal(readProcStat.mock.callCount(), 2);
+		assert.equal(errors.length, 1);
+		assert.ok(errors[0] instanceof EngineCrashError);
+		assert.equal(errors[0].details, 'unresponsive');
+		await events.once(er, 'exit');
+	});
+
 	test('emit only luamsg matching regex', async () => {
 		const er = new EngineRunnerImpl(
 			getEnv((() => {
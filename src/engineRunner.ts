@@ -6,16 +6,38 @@
  * Engine runner module providing functionality to start and manage the engine.
  */
 import { spawn, type ChildProcess } from 'node:child_process';
+import { setTimeout as asyncSetTimeout } from 'node:timers/promises';
 import dgram from 'node:dgram';
 import * as path from 'node:path';
 import * as fs from 'node:fs/promises';
 import * as tdf from 'recoil-tdf';
 import { TypedEmitter } from 'tiny-typed-emitter';
-import { parsePacket, type Event, EventType, PacketParseError } from './engineAutohostInterface.js';
+import {
+	parsePacket,
+	serializeCommandPacket,
+	serializeMessagePacket,
+	type Event,
+	EventType,
+	PacketParseError,
+} from './engineAutohostInterface.js';
 import { scriptGameFromStartRequest, StartScriptGenError } from './startScriptGen.js';
 import type { AutohostStartRequestData } from 'tachyon-protocol/types';
 import { TachyonError } from './tachyonTypes.js';
 import { Environment } from './environment.js';
+import { INSTANCES_DIR } from './instances.js';
+import { EngineOutputCapture, type Env as EngineOutputEnv } from './engineOutput.js';
+import { readProcStat } from './procfs.js';
+import {
+	engineSandboxPaths,
+	findSandboxedPid,
+	wrapInSandbox,
+	type Env as EngineSandboxEnv,
+} from './engineSandbox.js';
+import {
+	setupEngineLimits,
+	type EngineLimits,
+	type Env as EngineLimitsEnv,
+} from './engineLimits.js';
 
 function serializeEngineSettings(obj: { [k: string]: string }): string {
 	return Object.entries(obj)
@@ -35,6 +57,9 @@ export interface EngineRunnerEvents {
 	// errors are ignored.
 	error: (err: Error) => void;
 
+	// Emitted when the engine looks unhealthy, but is still running.
+	warning: (message: string) => void;
+
 	// Emitted after the engine has started and the first SERVER_STARTED packet
 	// has been received
 	start: () => void;
@@ -67,6 +92,9 @@ enum State {
  */
 interface Opts {
 	startRequest: AutohostStartRequestData;
+	// Engine version as requested by the server when it was an alias resolved
+	// to the `startRequest.engineVersion`.
+	requestedEngineVersion?: string;
 	autohostPort: number;
 	hostIP: string;
 	hostPort: number;
@@ -75,17 +103,66 @@ interface Opts {
 export interface EngineRunner extends TypedEmitter<EngineRunnerEvents> {
 	sendPacket(packet: Buffer): Promise<void>;
 	close(): void;
+
+	// The last lines of the engine standard output and error for diagnostics.
+	readonly outputTail: string[];
+
+	// Process id of the engine, once it's spawned and until it exits.
+	readonly pid: number | undefined;
 }
 
 interface Mocks {
 	spawn?: typeof spawn;
+	readProcStat?: typeof readProcStat;
+	findSandboxedPid?: typeof findSandboxedPid;
+	kill?: typeof process.kill;
 }
 
 interface Config {
 	engineSettings: { [k: string]: string };
+	crashReportLines: number;
+	contentRoots: string[];
+	contentDir: string;
+	contentStoreDir: string | null;
+	contentMirrorUrl: string | null;
+	engineShutdownGraceSeconds: number;
+	engineSigtermTimeoutSeconds: number;
+	engineWatchdogSilenceSeconds: number | null;
+	engineWatchdogCheckCpu: boolean;
 }
 
-export type Env = Environment<Config, Mocks>;
+export type Env = Environment<Config, Mocks> & EngineOutputEnv & EngineLimitsEnv & EngineSandboxEnv;
+
+// Name of the file in the instance directory with the full crash report.
+export const CRASH_REPORT_FILE = 'crash-report.txt';
+
+// The crash details are sent to the server, so they must stay reasonably small.
+const MAX_CRASH_DETAILS_LENGTH = 4000;
+
+// How long to wait for the rest of the engine output after it exited. It can
+// take forever if the pipes were inherited by some other process.
+const OUTPUT_DRAIN_TIMEOUT_MS = 1000;
+
+// How often the watchdog checks the running game.
+const WATCHDOG_INTERVAL_MS = 10000;
+
+// In-game notice sent to players when the engine is asked to quit.
+const SHUTDOWN_NOTICE = 'The game is being shut down by the autohost';
+
+/**
+ * Error emitted when the engine process exits with non-zero code.
+ */
+export class EngineCrashError extends Error {
+	constructor(
+		msg: string,
+		// Description of the crash with the last lines of engine logs, truncated
+		// to be suitable to send to the server.
+		public readonly details: string,
+	) {
+		super(msg);
+		this.name = 'EngineCrashError';
+	}
+}
 
 /**
  * Engine runner class responsible for lifecycle of the engine process and the
@@ -97,10 +174,24 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 	private udpServer: null | dgram.Socket = null;
 	private engineAutohostPort: number = 0;
 	private engineProcess: null | ChildProcess = null;
+	private udpServerClosing: boolean = false;
+	private limits: EngineLimits | null = null;
 	private engineSpawned: boolean = false;
+	private engineSpawnedAt: number = 0;
+	// In the sandbox, the spawned process only monitors the engine process.
+	private sandboxedPid: number | undefined = undefined;
+	private crashReportPending: boolean = false;
+	private output: EngineOutputCapture | null = null;
 	private state: State = State.None;
 	private logger: Env['logger'];
 	private luamsgRegex: RegExp | null = null;
+	private lastPacketAt: number = 0;
+	private watchdog: NodeJS.Timeout | null = null;
+	private silenceWarned: boolean = false;
+	// CPU ticks of the engine at the previous watchdog check while silent.
+	private silentCpuTicks: number | null = null;
+	// Duration of the finished startup phases, for diagnosing slow starts.
+	private startupPhasesMs: { [phase: string]: number } = {};
 
 	public constructor(private env: Env) {
 		super();
@@ -128,7 +219,9 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 				}
 			}
 
+			const setupStartedAt = Date.now();
 			const instanceDir = await this.setupInstanceDir(opts);
+			this.phaseFinished('instanceDir', setupStartedAt);
 			await this.startUdpServer(opts.autohostPort);
 			await this.startEngine(instanceDir, opts.startRequest);
 
@@ -137,6 +230,16 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 		run().catch((err) => this.handleError(err));
 	}
 
+	get outputTail(): string[] {
+		return this.output?.tail ?? [];
+	}
+
+	get pid(): number | undefined {
+		if (!this.engineSpawned) return undefined;
+		if (this.env.config.engineSandbox != 'none') return this.sandboxedPid;
+		return this.engineProcess?.pid;
+	}
+
 	/**
 	 * Send an autohost packet to the running engine process
 	 *
@@ -163,31 +266,88 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 	/**
 	 * Close the engine runner and stop the engine process and the UDP server.
 	 *
+	 * The running engine is first asked to quit over the autohost interface,
+	 * so it can finalize the demo and stats, and it's terminated only after
+	 * `engineShutdownGraceSeconds`.
+	 *
 	 * This function can be called any time, any number of times.
 	 */
 	public close(): void {
+		this.stop(true);
+	}
+
+	private stop(graceful: boolean): void {
 		if (this.state >= State.Stopping) return;
+		const running = this.state == State.Running;
+		this.stopWatchdog();
+		if (this.state == State.Starting) {
+			// Phases missing here are the ones that didn't finish.
+			this.logger.warn(
+				{ startupPhasesMs: this.startupPhasesMs },
+				'engine startup interrupted',
+			);
+		}
 		this.state = State.Stopping;
 
-		// TODO: handle instance dir somehow?
+		// The instance directory is left in place, it's removed according to
+		// the retention policy by the InstancesManager.
+
+		if (
+			graceful &&
+			running &&
+			this.engineProcess != null &&
+			this.env.config.engineShutdownGraceSeconds > 0
+		) {
+			// The UDP server is closed only after the engine exits, so we
+			// still get the last packets like SERVER_QUIT.
+			this.shutdownEngine();
+		} else {
+			this.killEngine();
+			this.closeUdpServer();
+		}
+		this.maybeEmitExit();
+	}
+
+	private shutdownEngine(): void {
+		const graceSeconds = this.env.config.engineShutdownGraceSeconds;
+		this.logger.info(`asking engine to quit, terminating it in ${graceSeconds}s`);
+		for (const packet of [
+			serializeMessagePacket(SHUTDOWN_NOTICE),
+			serializeCommandPacket('kill', []),
+		]) {
+			this.udpServer?.send(packet, this.engineAutohostPort, '127.0.0.1', (err) => {
+				if (err) this.logger.warn(err, 'failed to send shutdown packet to engine');
+			});
+		}
 
-		this.killEngine();
-		if (this.udpServer) {
+		const engineSigTerm = setTimeout(() => {
+			this.logger.warn(`Engine didn't quit in ${graceSeconds}s, trying with SIGTERM`);
+			this.killEngine();
+		}, graceSeconds * 1000);
+
+		this.engineProcess!.once('exit', () => {
+			clearTimeout(engineSigTerm);
+		});
+	}
+
+	private closeUdpServer(): void {
+		if (this.udpServer && !this.udpServerClosing) {
+			this.udpServerClosing = true;
 			this.udpServer.close();
 		}
-		this.maybeEmitExit();
 	}
 
 	private killEngine(): void {
 		if (this.engineProcess == null || !this.engineSpawned) return;
 
-		// If the engine doesn't exit in 20 seconds after SIGTERM, we kill it
-		// with SIGKILL. This is a bit aggressive but we don't want to wait
-		// forever for the engine to exit, it should exit quickly.
+		// If the engine doesn't exit after SIGTERM in time, we kill it with
+		// SIGKILL. This is a bit aggressive but we don't want to wait forever
+		// for the engine to exit, it should exit quickly.
+		const timeoutSeconds = this.env.config.engineSigtermTimeoutSeconds;
 		const engineSigKill = setTimeout(() => {
 			this.logger.error("Engine didn't exit after SIGTERM, trying with SIGKILL");
 			this.engineProcess?.kill('SIGKILL');
-		}, 20000);
+		}, timeoutSeconds * 1000);
 
 		this.engineProcess.once('exit', () => {
 			// We must clear the timeout because the pid might be reused
@@ -195,7 +355,16 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 			clearTimeout(engineSigKill);
 		});
 
-		if (!this.engineProcess.kill('SIGTERM')) {
+		if (this.env.config.engineSandbox != 'none' && this.sandboxedPid !== undefined) {
+			// The spawned process only monitors the engine and ignores SIGTERM,
+			// so it's sent to the engine itself. SIGKILL of the monitor above
+			// kills the engine too.
+			try {
+				(this.env.mocks?.kill ?? process.kill)(this.sandboxedPid, 'SIGTERM');
+			} catch (err) {
+				this.logger.warn(err, 'failed to SIGTERM sandboxed engine process');
+			}
+		} else if (!this.engineProcess.kill('SIGTERM')) {
 			// This should never happen, if it does there isn't much we
 			// can do here except unref and log it :(
 			this.engineProcess.unref();
@@ -203,6 +372,81 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 		}
 	}
 
+	private packetReceived(packet: Event): void {
+		this.lastPacketAt = Date.now();
+		if (this.silenceWarned) {
+			this.logger.info('engine is sending packets again');
+			this.silenceWarned = false;
+		}
+		this.silentCpuTicks = null;
+		switch (packet.type) {
+			case EventType.SERVER_STARTPLAYING:
+				this.startWatchdog();
+				break;
+			case EventType.SERVER_GAMEOVER:
+			case EventType.SERVER_QUIT:
+				this.stopWatchdog();
+				break;
+		}
+	}
+
+	/**
+	 * The watchdog runs only while the game is playing: in the pregame lobby
+	 * and after the game is over the engine can be legitimately silent for
+	 * a long time.
+	 */
+	private startWatchdog(): void {
+		if (this.env.config.engineWatchdogSilenceSeconds == null || this.watchdog) return;
+		this.watchdog = setInterval(() => this.checkLiveness(), WATCHDOG_INTERVAL_MS);
+		this.watchdog.unref();
+	}
+
+	private stopWatchdog(): void {
+		if (this.watchdog) {
+			clearInterval(this.watchdog);
+			this.watchdog = null;
+		}
+	}
+
+	private checkLiveness(): void {
+		const silenceSeconds = this.env.config.engineWatchdogSilenceSeconds!;
+		const silentSeconds = Math.round((Date.now() - this.lastPacketAt) / 1000);
+		if (silentSeconds < silenceSeconds) return;
+		if (!this.silenceWarned) {
+			this.silenceWarned = true;
+			this.logger.warn(`no packets from engine for ${silentSeconds}s`);
+			this.emit('warning', `engine sent no updates for ${silentSeconds} seconds`);
+		}
+
+		// Silence alone can be e.g. a paused game, so the engine is killed
+		// only if it also doesn't use any CPU.
+		const pid = this.pid;
+		if (!this.env.config.engineWatchdogCheckCpu || pid === undefined) return;
+		(this.env.mocks?.readProcStat ?? readProcStat)(pid)
+			.then(({ cpuTicks }) => {
+				if (!this.silenceWarned || this.state != State.Running) return;
+				if (this.silentCpuTicks === cpuTicks) {
+					const msg = `Engine unresponsive, no packets for ${silentSeconds}s and no CPU progress`;
+					this.logger.error(msg);
+					this.handleError(new EngineCrashError(msg, 'unresponsive'));
+				} else {
+					this.silentCpuTicks = cpuTicks;
+				}
+			})
+			.catch((err) => this.logger.warn(err, 'failed to read engine process stats'));
+	}
+
+	private releaseLimits(): void {
+		// Closing limits never rejects.
+		void this.limits?.close();
+		this.limits = null;
+	}
+
+	private phaseFinished(phase: string, startedAt: number): void {
+		this.startupPhasesMs[phase] = Date.now() - startedAt;
+		this.logger.debug(`engine startup phase ${phase} took ${this.startupPhasesMs[phase]}ms`);
+	}
+
 	private maybeEmitExit(): void {
 		// We can only emit exit when both the engine and the UDP server are
 		// stopped because we need to ensure that autohost UDP port isn't used
@@ -211,7 +455,12 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 		//    autohost port is still in use and we can't start new server.
 		//  - if the UDP server is stopped but the engine is still running, the
 		//	  engine might still be sending packets to the autohost port.
-		if (this.state == State.Stopping && this.engineProcess == null && this.udpServer == null) {
+		if (
+			this.state == State.Stopping &&
+			this.engineProcess == null &&
+			this.udpServer == null &&
+			!this.crashReportPending
+		) {
 			this.state = State.Stopped;
 			// Must be in next tick because we can get here directly from the close call
 			// and not all listeners might be attached yet.
@@ -224,14 +473,16 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 	private handleError(err: Error): void {
 		if (this.state >= State.Stopping) return;
 		this.emit('error', err);
-		this.close();
+		this.stop(false);
 	}
 
 	private async startUdpServer(autohostPort: number): Promise<void> {
 		if (this.state != State.Starting) return;
 
+		const bindStartedAt = Date.now();
 		this.udpServer = dgram.createSocket('udp4');
 		this.udpServer.bind(autohostPort, '127.0.0.1');
+		this.udpServer.once('listening', () => this.phaseFinished('udpBind', bindStartedAt));
 		this.udpServer.on('error', (err) => this.handleError(err));
 		this.udpServer.on('message', (msg, rinfo) => this.handleAutohostPacket(msg, rinfo));
 		this.udpServer.on('close', () => {
@@ -254,6 +505,10 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 				}
 				this.engineAutohostPort = rinfo.port;
 				this.state = State.Running;
+				if (this.engineSpawned) {
+					this.phaseFinished('firstPacket', this.engineSpawnedAt);
+				}
+				this.logger.info({ startupPhasesMs: this.startupPhasesMs }, 'engine started');
 				this.emit('start');
 			}
 			if (this.engineAutohostPort != rinfo.port) {
@@ -263,6 +518,7 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 				);
 				return;
 			}
+			this.packetReceived(packet);
 
 			// Don't emit luamsg's not matching start script regexp.
 			if (
@@ -297,42 +553,169 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 
 		if (this.state != State.Starting) return;
 
-		this.engineProcess = (this.env.mocks?.spawn ?? spawn)(
+		// Without shared data directories, the engine is isolated to the
+		// instance directory. With them, isolation must be turned off, as
+		// engine ignores SPRING_DATADIR in isolation mode, and the instance
+		// directory stays the write directory so it only holds per-battle output.
+		const dataDirs = this.dataDirs();
+		const args = [path.join(instanceDir, 'script.txt')];
+		const env: NodeJS.ProcessEnv = { 'SPRING_WRITEDIR': instanceDir };
+		if (dataDirs.length > 0) {
+			env['SPRING_DATADIR'] = dataDirs.join(path.delimiter);
+		} else {
+			args.unshift('-isolation');
+		}
+
+		const limits = await setupEngineLimits(this.env, this.logger, startRequest.battleId);
+		if (this.state != State.Starting) {
+			await limits?.close();
+			return;
+		}
+		this.limits = limits;
+		// Limits wrap the sandbox, so the engine is moved to its cgroup from
+		// outside of the sandbox.
+		const sandboxed = wrapInSandbox(
+			this.env,
+			engineSandboxPaths(this.env, instanceDir),
 			path.join(engineDir, 'spring-dedicated'),
-			['-isolation', path.join(instanceDir, 'script.txt')],
-			{
-				cwd: instanceDir,
-				stdio: 'ignore',
-				env: {
-					...process.env,
-					'SPRING_WRITEDIR': instanceDir,
-				},
-			},
+			args,
+			env,
 		);
+		const command = limits?.wrap(sandboxed.command, sandboxed.args) ?? sandboxed;
+
+		const spawnStartedAt = Date.now();
+		const engineProcess = (this.env.mocks?.spawn ?? spawn)(command.command, command.args, {
+			cwd: instanceDir,
+			stdio: ['ignore', 'pipe', 'pipe'],
+			env: sandboxed.env,
+		});
+		this.engineProcess = engineProcess;
+		this.output = new EngineOutputCapture(this.env, this.logger, instanceDir);
+		if (this.engineProcess.stdout) {
+			this.output.capture(this.engineProcess.stdout, 'stdout');
+		}
+		if (this.engineProcess.stderr) {
+			this.output.capture(this.engineProcess.stderr, 'stderr');
+		}
 		this.engineProcess.on('error', (err) => {
 			if (!this.engineSpawned) {
 				this.engineProcess = null;
+				this.releaseLimits();
 				this.maybeEmitExit();
 			}
 			this.handleError(err);
 		});
 		this.engineProcess.on('spawn', () => {
 			this.engineSpawned = true;
+			this.engineSpawnedAt = Date.now();
+			this.phaseFinished('spawn', spawnStartedAt);
+			if (this.env.config.engineSandbox != 'none') {
+				(this.env.mocks?.findSandboxedPid ?? findSandboxedPid)(engineProcess.pid!)
+					.then((pid) => {
+						if (this.engineProcess === engineProcess) this.sandboxedPid = pid;
+					})
+					.catch((err) => this.logger.warn(err, 'failed to find sandboxed engine pid'));
+			}
 			if (this.state == State.Stopping) {
 				this.killEngine();
 			}
 		});
 		this.engineProcess.on('exit', (code, signal) => {
 			this.engineProcess = null;
-			if (code !== 0) {
-				this.handleError(new Error(`Engine exited with code ${code}, signal ${signal}`));
-			} else {
+			this.sandboxedPid = undefined;
+			this.stopWatchdog();
+			if (this.state == State.Stopping) {
+				this.closeUdpServer();
+			}
+			if (code === 0) {
+				this.releaseLimits();
 				this.close();
+				this.maybeEmitExit();
+				return;
 			}
-			this.maybeEmitExit();
+			// Collecting the crash report is async so we hold the exit until
+			// it's done to emit the error before it.
+			this.crashReportPending = true;
+			this.collectCrashReport(instanceDir, code, signal)
+				.then((err) => this.handleError(err))
+				.finally(() => {
+					this.releaseLimits();
+					this.crashReportPending = false;
+					this.maybeEmitExit();
+				});
 		});
 	}
 
+	/**
+	 * Collect the details about the engine crash and write them in full to
+	 * the crash report file in the instance directory.
+	 *
+	 * @returns Error with truncated crash details, never rejects.
+	 */
+	private async collectCrashReport(
+		instanceDir: string,
+		code: number | null,
+		signal: NodeJS.Signals | null,
+	): Promise<Error> {
+		let msg = `Engine exited with code ${code}, signal ${signal}`;
+		if (this.engineSpawnedAt) {
+			msg += ` after ${Math.round((Date.now() - this.engineSpawnedAt) / 1000)}s`;
+		}
+		if (await this.limits?.oomKilled()) {
+			msg += `: out of memory, exceeded the ${this.env.config.engineMemoryLimitMB}MB limit`;
+		}
+		try {
+			if (this.output) {
+				await Promise.race([
+					this.output.closed,
+					asyncSetTimeout(OUTPUT_DRAIN_TIMEOUT_MS, undefined, { ref: false }),
+				]);
+			}
+			const n = this.env.config.crashReportLines;
+			const infolog = await readLastLines(path.join(instanceDir, 'infolog.txt'), n);
+			const output = this.outputTail;
+
+			const sections = [msg];
+			if (infolog.length > 0) {
+				sections.push(
+					`Last ${infolog.length} lines of infolog.txt:\n${infolog.join('\n')}`,
+				);
+			}
+			if (output.length > 0) {
+				sections.push(
+					`Last ${output.length} lines of engine output:\n${output.join('\n')}`,
+				);
+			}
+			const report = sections.join('\n\n') + '\n';
+			await fs.writeFile(path.join(instanceDir, CRASH_REPORT_FILE), report);
+
+			// The infolog is more detailed than the output, so prefer it.
+			const lines = infolog.length > 0 ? infolog : output.slice(-n);
+			let details = [msg, ...lines].join('\n');
+			if (details.length > MAX_CRASH_DETAILS_LENGTH) {
+				details = `${msg}\n...\n${details.slice(-(MAX_CRASH_DETAILS_LENGTH - msg.length - 5))}`;
+			}
+			return new EngineCrashError(msg, details);
+		} catch (err) {
+			this.logger.error(err, 'failed to collect engine crash report');
+			return new EngineCrashError(msg, msg);
+		}
+	}
+
+	/**
+	 * Shared read-only data directories with content for the engine.
+	 *
+	 * The content directory is included when autohost fetches content there.
+	 */
+	private dataDirs(): string[] {
+		const { contentRoots, contentDir, contentStoreDir, contentMirrorUrl } = this.env.config;
+		const dirs = [...contentRoots];
+		if (contentStoreDir || contentMirrorUrl) {
+			dirs.unshift(contentDir);
+		}
+		return dirs.map((dir) => path.resolve(dir));
+	}
+
 	/**
 	 * Setup the game instance directory for the engine.
 	 *
@@ -357,7 +740,7 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 		game['AutohostPort'] = opts.autohostPort;
 		const script = tdf.serialize({ 'GAME': game });
 
-		const instanceDir = path.resolve('instances', opts.startRequest.battleId);
+		const instanceDir = path.resolve(INSTANCES_DIR, opts.startRequest.battleId);
 		await fs.mkdir(instanceDir, { recursive: true });
 		const scriptPath = path.join(instanceDir, 'script.txt');
 		await fs.writeFile(scriptPath, script);
@@ -373,10 +756,49 @@ export class EngineRunnerImpl extends TypedEmitter<EngineRunnerEvents> implement
 		});
 		await fs.writeFile(path.join(instanceDir, 'springsettings.cfg'), engineSettings);
 
+		// Record the engine version used, it's not obvious from the start
+		// script when the server requested it by alias.
+		const engine = {
+			version: opts.startRequest.engineVersion,
+			requestedVersion: opts.requestedEngineVersion ?? opts.startRequest.engineVersion,
+		};
+		await fs.writeFile(path.join(instanceDir, 'engine.json'), JSON.stringify(engine));
+
 		return instanceDir;
 	}
 }
 
+/**
+ * Read up to the last `n` lines of the file, empty if it doesn't exist.
+ *
+ * Only the end of the file is read, as the logs can get big.
+ */
+async function readLastLines(file: string, n: number): Promise<string[]> {
+	const maxBytes = 256 * 1024;
+	let handle;
+	try {
+		handle = await fs.open(file);
+	} catch {
+		return [];
+	}
+	try {
+		const { size } = await handle.stat();
+		const length = Math.min(size, maxBytes);
+		const { buffer } = await handle.read(Buffer.alloc(length), 0, length, size - length);
+		const lines = buffer.toString('utf-8').split(/\r?\n/);
+		if (lines.at(-1) === '') {
+			lines.pop();
+		}
+		// The first line might be cut in the middle.
+		if (length < size) {
+			lines.shift();
+		}
+		return lines.slice(-n);
+	} finally {
+		await handle.close();
+	}
+}
+
 /**
  * Run the engine with the given options
  *
@@ -0,0 +1,238 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { suite, test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { pino } from 'pino';
+import { chmod, mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { once } from 'node:events';
+import { execFile, spawn, spawnSync } from 'node:child_process';
+import { promisify } from 'node:util';
+import {
+	checkEngineSandbox,
+	EngineSandboxError,
+	findSandboxedPid,
+	wrapInSandbox,
+	type Env,
+} from './engineSandbox.js';
+
+function getEnv(config: Partial<Env['config']>): Env {
+	return {
+		logger: pino({ level: 'silent' }),
+		config: {
+			engineSandbox: 'unshare',
+			engineSandboxCommand: 'unshare',
+			engineSandboxHiddenPaths: [],
+			...config,
+		},
+	};
+}
+
+// The isolation is verified as an unprivileged user, also when tests run as
+// root, as only root can set up the mounts without the user namespace.
+const runAs = process.getuid?.() === 0 ? { uid: 65534, gid: 65534 } : {};
+
+// Unprivileged user namespaces can be disabled, e.g. by AppArmor.
+const sandboxUnavailable =
+	process.platform !== 'linux' ||
+	spawnSync('unshare', ['--user', '--map-root-user', '--mount', '--pid', '--fork', 'true'], {
+		...runAs,
+		stdio: 'ignore',
+	}).status !== 0;
+
+const paths = {
+	writable: ['/autohost/instances/b1'],
+	hidden: ['/autohost/config.json'],
+};
+
+suite('wrapInSandbox', () => {
+	test('sandbox disabled', () => {
+		const env = getEnv({ engineSandbox: 'none' });
+		const cmd = wrapInSandbox(env, paths, '/engine', ['script.txt'], { SPRING_WRITEDIR: '/w' });
+		assert.equal(cmd.command, '/engine');
+		assert.deepEqual(cmd.args, ['script.txt']);
+		assert.deepEqual(cmd.env, { ...process.env, SPRING_WRITEDIR: '/w' });
+	});
+
+	test('unshare', () => {
+		const env = getEnv({ engineSandboxCommand: '/usr/bin/unshare' });
+		const {
+			command,
+			args,
+			env: cmdEnv,
+		} = wrapInSandbox(env, paths, '/engine', ['script.txt'], {
+			SPRING_WRITEDIR: '/w',
+		});
+		assert.equal(command, '/usr/bin/unshare');
+		const sep = args.indexOf('--');
+		assert.deepEqual(args.slice(0, sep), [
+			'--user',
+			'--map-root-user',
+			'--mount',
+			'--pid',
+			'--fork',
+			'--kill-child',
+			'--mount-proc',
+			'--ipc',
+			'--uts',
+		]);
+		assert.deepEqual(args.slice(sep + 1, sep + 3), ['/bin/sh', '-c']);
+		assert.deepEqual(args.slice(sep + 4), [
+			'sh',
+			'/usr/bin/unshare',
+			'rw',
+			'/autohost/instances/b1',
+			'hide',
+			'/autohost/config.json',
+			'--',
+			'/engine',
+			'script.txt',
+		]);
+		assert.equal(cmdEnv['SPRING_WRITEDIR'], '/w');
+		assert.equal(cmdEnv['PATH'], process.env['PATH']);
+		assert.equal(cmdEnv['HOME'], undefined);
+	});
+});
+
+suite('sandbox', () => {
+	let testDir: string;
+	let originalCwd: string;
+
+	beforeEach(async () => {
+		originalCwd = process.cwd();
+		testDir = await mkdtemp(join(tmpdir(), 'engine-sandbox-test-'));
+		await chmod(testDir, 0o755);
+		process.chdir(testDir);
+	});
+
+	afterEach(async () => {
+		process.chdir(originalCwd);
+		await rm(testDir, { recursive: true });
+	});
+
+	test('check with sandbox disabled', async () => {
+		await checkEngineSandbox(
+			getEnv({ engineSandbox: 'none', engineSandboxCommand: '/missing' }),
+		);
+	});
+
+	test('check with missing sandbox command', async () => {
+		await assert.rejects(
+			checkEngineSandbox(getEnv({ engineSandboxCommand: join(testDir, 'missing') })),
+			(err) => err instanceof EngineSandboxError && /ENOENT/.test(err.message),
+		);
+	});
+
+	test('check with missing hidden path', async () => {
+		await assert.rejects(
+			checkEngineSandbox(
+				getEnv({ engineSandboxHiddenPaths: [join(testDir, 'missing.json')] }),
+			),
+			/hidden path .*missing.json doesn't exist/,
+		);
+	});
+
+	test('check detects paths not isolated', async () => {
+		// Launcher running the probe directly, skipping the namespaces and
+		// mounts, as if they silently didn't apply.
+		const launcher = join(testDir, 'launcher.sh');
+		await writeFile(
+			launcher,
+			'#!/bin/sh\nwhile [ "$1" != -- ]; do shift; done; shift\n' +
+				'while [ "$1" != -- ]; do shift; done; shift\nexec "$@"\n',
+		);
+		await chmod(launcher, 0o755);
+		const config = join(testDir, 'config.json');
+		await writeFile(config, '{"authClientSecret": "secret"}');
+
+		await assert.rejects(
+			checkEngineSandbox(
+				getEnv({ engineSandboxCommand: launcher, engineSandboxHiddenPaths: [config] }),
+			),
+			(err) => err instanceof EngineSandboxError && /is writable$/.test(err.message),
+		);
+	});
+
+	test('check passes with working sandbox', { skip: sandboxUnavailable }, async () => {
+		const config = join(testDir, 'config.json');
+		await writeFile(config, '{"authClientSecret": "secret"}');
+		await checkEngineSandbox(getEnv({ engineSandboxHiddenPaths: [config] }));
+	});
+
+	test('isolates unprivileged engine', { skip: sandboxUnavailable }, async () => {
+		const instanceDir = join(testDir, 'instances', 'b1');
+		await mkdir(instanceDir, { recursive: true });
+		await chmod(instanceDir, 0o777);
+		const config = join(testDir, 'config.json');
+		await writeFile(config, '{"authClientSecret": "secret"}', { mode: 0o644 });
+		await mkdir(join(testDir, 'secrets'));
+		await writeFile(join(testDir, 'secrets', 'key'), 'secret', { mode: 0o644 });
+		process.env['AUTOHOST_SANDBOX_TEST_SECRET'] = 'secret';
+
+		const env = getEnv({ engineSandboxHiddenPaths: [config, join(testDir, 'secrets')] });
+		const cmd = wrapInSandbox(
+			env,
+			{ writable: [instanceDir], hidden: env.config.engineSandboxHiddenPaths },
+			'/bin/sh',
+			[
+				'-c',
+				[
+					'echo "uid=$(id -u) pid=$$"',
+					'echo "config=$(cat config.json)"',
+					'echo "secrets=$(ls secrets)"',
+					'echo "env=$AUTOHOST_SANDBOX_TEST_SECRET"',
+					'touch instances/b1/ok && echo "instance writable"',
+					'touch outside 2>/dev/null || echo "outside read-only"',
+					'mount --bind /tmp instances/b1 2>/dev/null || echo "mount denied"',
+				].join('\n'),
+			],
+			{},
+		);
+		delete process.env['AUTOHOST_SANDBOX_TEST_SECRET'];
+		const { stdout } = await promisify(execFile)(cmd.command, cmd.args, {
+			...runAs,
+			env: cmd.env,
+			timeout: 5000,
+		});
+		const uid = runAs.uid ?? process.getuid!();
+		assert.deepEqual(stdout.trim().split('\n'), [
+			`uid=${uid} pid=1`,
+			'config=',
+			'secrets=',
+			'env=',
+			'instance writable',
+			'outside read-only',
+			'mount denied',
+		]);
+	});
+
+	test('finds sandboxed process', { skip: sandboxUnavailable }, async () => {
+		const cmd = wrapInSandbox(getEnv({}), { writable: [], hidden: [] }, 'sleep', ['10'], {});
+		const proc = spawn(cmd.command, cmd.args, { ...runAs, env: cmd.env, stdio: 'ignore' });
+		await once(proc, 'spawn');
+		const pid = await findSandboxedPid(proc.pid!);
+		assert.notEqual(pid, proc.pid);
+		// The child is the shell setting up the sandbox until it executes.
+		for (let i = 0; i < 100; ++i) {
+			if ((await readFile(`/proc/${pid}/comm`, 'utf-8')).trim() === 'sleep') break;
+			await new Promise((resolve) => setTimeout(resolve, 10));
+		}
+		assert.equal((await readFile(`/proc/${pid}/comm`, 'utf-8')).trim(), 'sleep');
+
+		// Killing the monitor kills the sandboxed process too.
+		proc.kill('SIGKILL');
+		await once(proc, 'exit');
+		// It's left as a zombie until reaped by the init outside of sandbox.
+		const isDead = async () => {
+			const stat = await readFile(`/proc/${pid}/stat`, 'utf-8').catch(() => null);
+			return !stat || stat.slice(stat.lastIndexOf(')') + 2)[0] == 'Z';
+		};
+		for (let i = 0; i < 100 && !(await isDead()); ++i) {
+			await new Promise((resolve) => setTimeout(resolve, 10));
+		}
+		assert.ok(await isDead());
+	});
+});
@@ -0,0 +1,258 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module running the engine in a sandbox built from unprivileged namespaces.
+ *
+ * Engines run untrusted game Lua code, so the sandbox gives the engine its
+ * own user, mount, PID, IPC and UTS namespaces:
+ *
+ * - All mounts are read-only, only the instance directory of the battle is
+ *   writable.
+ * - Hidden paths, e.g. the config file with the auth secret, are replaced
+ *   with an empty file or directory.
+ * - The engine sees only its own processes in a private /proc, so it can't
+ *   get to autohost through /proc/<pid>/root or /proc/<pid>/environ.
+ * - The engine runs with the autohost uid without any capabilities, and it
+ *   doesn't inherit the autohost environment variables.
+ *
+ * The network namespace is shared, as the engine must accept player
+ * connections on the hosting IP and talk to autohost over loopback, and
+ * unprivileged namespaces can't forward them into an isolated network
+ * namespace. The network must be restricted outside of autohost.
+ *
+ * The outer `unshare` maps the autohost user to root, so the shell in the
+ * namespaces can set up the mounts, and then executes the engine with a
+ * nested `unshare` mapping the user back, which drops the capabilities. As
+ * `unshare` forks into the PID namespace, the spawned process is only its
+ * monitor, the engine is its single child. The monitor ignores SIGTERM, so
+ * it must be sent to the engine found with `findSandboxedPid`.
+ */
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { setTimeout } from 'node:timers/promises';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Environment } from './environment.js';
+import { INSTANCES_DIR } from './instances.js';
+import { readProcChildren } from './procfs.js';
+
+interface Config {
+	engineSandbox: 'none' | 'unshare';
+	engineSandboxCommand: string;
+	engineSandboxHiddenPaths: string[];
+}
+
+export type Env = Environment<Config>;
+
+/**
+ * Paths that are exceptions from the read-only sandbox.
+ */
+export interface SandboxPaths {
+	writable: string[];
+	hidden: string[];
+}
+
+/**
+ * Command with its whole environment to spawn.
+ */
+export interface SandboxCommand {
+	command: string;
+	args: string[];
+	env: NodeJS.ProcessEnv;
+}
+
+export class EngineSandboxError extends Error {
+	constructor(msg: string, options?: ErrorOptions) {
+		super(msg, options);
+		this.name = 'EngineSandboxError';
+	}
+}
+
+// Environment variables passed from autohost to the sandboxed engine.
+const SANDBOX_ENV_VARS = ['PATH', 'LANG', 'LC_ALL', 'TZ'];
+
+// Arguments are the unshare command, `<rw|hide> <path>` pairs terminated by
+// `--`, and the command to execute. Missing paths to hide are skipped.
+//
+// The private /proc stays writable, the uid and gid maps of the nested user
+// namespace are written there. Escapes in mount points from mountinfo, e.g.
+// \040 for space, are decoded by printf.
+const MOUNT_SCRIPT = `set -e
+unshare=$1; shift
+while read -r _ _ _ _ mp _; do
+	case "$mp" in /proc|/proc/*) continue;; esac
+	mount -o remount,bind,ro "$(printf '%b' "$mp")"
+done < /proc/self/mountinfo
+while [ "$1" != -- ]; do
+	case "$1" in
+	rw)
+		mount --bind "$2" "$2"
+		mount -o remount,bind,rw "$2";;
+	hide)
+		if [ -d "$2" ]; then
+			mount -t tmpfs -o ro tmpfs "$2"
+		elif [ -e "$2" ]; then
+			mount --bind /dev/null "$2"
+		fi;;
+	esac
+	shift 2
+done
+shift
+read -r _ uid _ < /proc/self/uid_map
+read -r _ gid _ < /proc/self/gid_map
+exec "$unshare" --user --map-user="$uid" --map-group="$gid" -- "$@"`;
+
+// Reports the first property of the sandbox not as expected. Arguments are
+// the writable directory, a read-only directory, the autohost uid and hidden
+// paths.
+const PROBE_SCRIPT = `inst=$1; ro=$2; uid=$3; shift 3
+if ! [ -w "$inst" ]; then echo "$inst is not writable" >&2; exit 1; fi
+if [ -w "$ro" ]; then echo "$ro is writable" >&2; exit 1; fi
+if [ "$(id -u)" != "$uid" ]; then echo "runs as uid $(id -u) instead of $uid" >&2; exit 1; fi
+if [ "$$" != 1 ]; then echo "runs outside of a PID namespace" >&2; exit 1; fi
+for p; do
+	if [ -d "$p" ]; then [ -z "$(ls -A "$p")" ]; else [ ! -s "$p" ]; fi ||
+		{ echo "$p is not hidden" >&2; exit 1; }
+done`;
+
+// How long the startup check can take, it only sets up a few mounts.
+const CHECK_TIMEOUT_MS = 10000;
+
+// How long to wait for unshare to fork the engine after it was spawned.
+const FORK_WAIT_MS = 5000;
+const FORK_POLL_MS = 10;
+
+/**
+ * Wrap the engine command so that it runs in the sandbox, when enabled.
+ *
+ * @param extraEnv Environment variables of the command. Without the sandbox
+ *     it also inherits all the autohost variables, in the sandbox only the
+ *     few essential ones.
+ */
+export function wrapInSandbox(
+	env: Env,
+	paths: SandboxPaths,
+	command: string,
+	args: string[],
+	extraEnv: NodeJS.ProcessEnv,
+): SandboxCommand {
+	if (env.config.engineSandbox == 'none') {
+		return { command, args, env: { ...process.env, ...extraEnv } };
+	}
+	// Order matters: hidden paths can be inside the writable ones.
+	const mounts = [
+		...paths.writable.flatMap((p) => ['rw', path.resolve(p)]),
+		...paths.hidden.flatMap((p) => ['hide', path.resolve(p)]),
+	];
+	const sandboxEnv: NodeJS.ProcessEnv = {};
+	for (const name of SANDBOX_ENV_VARS) {
+		if (process.env[name] !== undefined) sandboxEnv[name] = process.env[name];
+	}
+	return {
+		command: env.config.engineSandboxCommand,
+		args: [
+			'--user',
+			'--map-root-user',
+			'--mount',
+			'--pid',
+			'--fork',
+			'--kill-child',
+			'--mount-proc',
+			'--ipc',
+			'--uts',
+			'--',
+			'/bin/sh',
+			'-c',
+			MOUNT_SCRIPT,
+			'sh',
+			env.config.engineSandboxCommand,
+			...mounts,
+			'--',
+			command,
+			...args,
+		],
+		env: { ...sandboxEnv, ...extraEnv },
+	};
+}
+
+/**
+ * Paths writable and hidden for the engine of a single battle.
+ *
+ * @param instanceDir Instance directory of the battle, the only writable one.
+ */
+export function engineSandboxPaths(env: Env, instanceDir: string): SandboxPaths {
+	return {
+		writable: [instanceDir],
+		hidden: env.config.engineSandboxHiddenPaths,
+	};
+}
+
+/**
+ * Find the pid of the sandboxed process, the single child of the spawned
+ * `unshare`.
+ *
+ * @param pid Pid of the spawned `unshare`.
+ * @throws {EngineSandboxError} When the sandboxed process didn't appear.
+ */
+export async function findSandboxedPid(pid: number): Promise<number> {
+	for (let waited = 0; waited < FORK_WAIT_MS; waited += FORK_POLL_MS) {
+		const [child] = await readProcChildren(pid);
+		if (child !== undefined) return child;
+		await setTimeout(FORK_POLL_MS);
+	}
+	throw new EngineSandboxError(`sandboxed process of ${pid} didn't start`);
+}
+
+/**
+ * Verify that the sandbox works on this system and isolates the engine as
+ * configured, by running a probe in it as the engine would run.
+ *
+ * @throws {EngineSandboxError} When the sandbox is misconfigured.
+ */
+export async function checkEngineSandbox(env: Env): Promise<void> {
+	if (env.config.engineSandbox == 'none') return;
+
+	for (const hidden of env.config.engineSandboxHiddenPaths) {
+		if (!(await fs.stat(hidden).catch(() => null))) {
+			throw new EngineSandboxError(`hidden path ${hidden} doesn't exist`);
+		}
+	}
+	const instancesDir = path.resolve(INSTANCES_DIR);
+	await fs.mkdir(instancesDir, { recursive: true });
+	const probe = wrapInSandbox(
+		env,
+		engineSandboxPaths(env, instancesDir),
+		'/bin/sh',
+		[
+			'-c',
+			PROBE_SCRIPT,
+			'sh',
+			instancesDir,
+			path.resolve('.'),
+			String(process.getuid?.()),
+			...env.config.engineSandboxHiddenPaths.map((p) => path.resolve(p)),
+		],
+		{},
+	);
+	try {
+		await promisify(execFile)(probe.command, probe.args, {
+			env: probe.env,
+			timeout: CHECK_TIMEOUT_MS,
+		});
+	} catch (err) {
+		// Probe failures are reported on stderr, failures to run the sandbox
+		// command itself, e.g. ENOENT, only in the error.
+		const { stderr, code, message } = err as {
+			stderr?: string;
+			code?: unknown;
+			message: string;
+		};
+		const details = stderr?.trim() || (typeof code == 'string' ? message : null);
+		throw new EngineSandboxError(
+			`engine sandbox check failed${details ? `: ${details}` : ''}`,
+			{ cause: err },
+		);
+	}
+}
@@ -2,18 +2,47 @@
 //
 // SPDX-License-Identifier: Apache-2.0
 
-import { suite, test, mock, beforeEach } from 'node:test';
+import { suite, test, mock, beforeEach, afterEach, after } from 'node:test';
 import assert from 'node:assert/strict';
 import { pino } from 'pino';
-import { EngineVersionsManagerImpl, type Env } from './engineVersions.js';
+import { EngineVersionsManagerImpl, type EngineInstallState, type Env } from './engineVersions.js';
 import { FSWatcher } from 'chokidar';
 import { TypedEmitter } from 'tiny-typed-emitter';
 import fs from 'node:fs';
+import { once } from 'node:events';
+import { setTimeout } from 'node:timers/promises';
+import { mkdtemp, mkdir, rm, readFile, writeFile, readdir, utimes } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { chdir } from 'node:process';
+import { ChildProcess, spawn, type SpawnOptions } from 'node:child_process';
+import { createHash, generateKeyPairSync, sign } from 'node:crypto';
+import Fastify from 'fastify';
+
+// Force close to not wait for the hanging requests from timeout test.
+const server = Fastify({ forceCloseConnections: true });
+let archiveHandler: Fastify.RouteHandler = async (_req, resp) => {
+	resp.code(404);
+	return 'not found';
+};
+server.get('/engines/:version', (req, resp) => archiveHandler.call(server, req, resp));
+let checksums = '';
+server.get('/checksums/:version', async () => checksums);
+let signature = Buffer.alloc(0);
+server.get('/signatures/:version', async () => signature);
+await server.listen();
+const PORT = server.addresses()[0].port;
 
 suite('EngineVersionsManagerImpl', () => {
 	let fakeWatcher: TypedEmitter & { add: () => void; close: () => void };
+	const origCwd = process.cwd();
+	let testDir: string;
+
+	beforeEach(async () => {
+		testDir = await mkdtemp(join(tmpdir(), 'engine-versions-test-'));
+		chdir(testDir);
+		await mkdir('engines');
 
-	beforeEach(() => {
 		class FakeWatcher extends TypedEmitter {
 			add() {}
 			close() {}
@@ -25,18 +54,68 @@ suite('EngineVersionsManagerImpl', () => {
 		mock.method(fs, 'mkdirSync', () => {});
 	});
 
-	function getEnv(): Env {
+	afterEach(async () => {
+		chdir(origCwd);
+		await rm(testDir, { recursive: true });
+	});
+
+	after(() => server.close());
+
+	function getEnv(spawnMock?: typeof spawn): Env {
 		return {
 			logger: pino({ level: 'silent' }),
 			config: {
 				engineInstallTimeoutSeconds: 60,
+				engineDownloadUrlTemplate: `http://localhost:${PORT}/engines/{version}.7z`,
+				engineChecksumsUrlTemplate: null,
+				engineChecksumsFile: null,
+				engineSignatureUrlTemplate: null,
+				engineSigningPublicKeyFile: null,
+				maxConcurrentEngineInstalls: 1,
+				engineProbeTimeoutSeconds: 10,
+				maxEngineVersions: null,
+				maxEnginesDiskUsageMB: null,
+				keepEngineVersions: [],
+				engineAliases: {},
 			},
-			mocks: {},
+			mocks: { spawn: spawnMock },
 		};
 	}
 
+	// Fake 7z that "extracts" the archive by copying it into the output directory.
+	const fake7z = mock.fn(((cmd: string, args: string[]) => {
+		assert.equal(cmd, '7z');
+		const outDir = args.find((a) => a.startsWith('-o'))!.slice(2);
+		const archive = args[args.length - 1];
+		const cp = new ChildProcess();
+		(async () => {
+			await mkdir(outDir, { recursive: true });
+			await writeFile(join(outDir, 'spring-dedicated'), await readFile(archive));
+			cp.emit('exit', 0, null);
+		})();
+		return cp;
+	}) as typeof spawn);
+
+	// Fake engine version probe that succeeds only for the binaries created by
+	// `createEngine` with the default contents.
+	const fakeProbe = mock.fn(((cmd: string, args: string[]) => {
+		assert.deepEqual(args, ['--version']);
+		const cp = new ChildProcess();
+		readFile(cmd, 'utf-8').then((contents) => {
+			cp.emit('exit', contents == 'ok' ? 0 : 1, null);
+		});
+		return cp;
+	}) as typeof spawn);
+
+	async function createEngine(version: string, contents = 'ok', mode = 0o755) {
+		await mkdir(join('engines', version), { recursive: true });
+		await writeFile(join('engines', version, 'spring-dedicated'), contents, { mode });
+	}
+
 	test('watches for new and removed engines', async () => {
-		const evm = new EngineVersionsManagerImpl(getEnv());
+		await createEngine('105.1.1-1523-g63a25e1');
+		await createEngine('105.1.1-2449-gf1234a9');
+		const evm = new EngineVersionsManagerImpl(getEnv(fakeProbe));
 		const { promise: readyPromise, resolve: readyResolve } = Promise.withResolvers<void>();
 		evm.once('versions', () => readyResolve());
 		fakeWatcher.emit('ready');
@@ -68,7 +147,9 @@ suite('EngineVersionsManagerImpl', () => {
 	});
 
 	test('initial discovery works', async () => {
-		const evm = new EngineVersionsManagerImpl(getEnv());
+		await createEngine('105.1.1-1523-g63a25e1');
+		await createEngine('105.1.1-2449-gf1234a9');
+		const evm = new EngineVersionsManagerImpl(getEnv(fakeProbe));
 
 		const { promise, resolve } = Promise.withResolvers<void>();
 		evm.once('versions', (versions) => {
@@ -78,9 +159,536 @@ suite('EngineVersionsManagerImpl', () => {
 
 		fakeWatcher.emit('addDir', '');
 		fakeWatcher.emit('addDir', '105.1.1-1523-g63a25e1');
+		fakeWatcher.emit('addDir', '105.1.1-1523-g63a25e1/AI');
 		fakeWatcher.emit('addDir', '105.1.1-2449-gf1234a9');
 		fakeWatcher.emit('ready');
 
 		await promise;
 	});
+
+	test('quarantines invalid engines', async () => {
+		await createEngine('ok');
+		await mkdir('engines/missing');
+		await createEngine('not-executable', 'ok', 0o644);
+		await createEngine('failing', 'fail');
+		const evm = new EngineVersionsManagerImpl(getEnv(fakeProbe));
+
+		const { promise, resolve } = Promise.withResolvers<void>();
+		evm.once('versions', () => resolve());
+		for (const version of ['ok', 'missing', 'not-executable', 'failing']) {
+			fakeWatcher.emit('addDir', version);
+		}
+		fakeWatcher.emit('ready');
+		await promise;
+
+		assert.deepEqual(evm.engineVersions, ['ok']);
+		assert.deepEqual(
+			evm.quarantinedEngines,
+			new Map([
+				['missing', 'spring-dedicated not found'],
+				['not-executable', 'spring-dedicated is not executable'],
+				['failing', 'version probe exited with code 1, signal null'],
+			]),
+		);
+
+		// Fixing the binary makes engine available.
+		const { promise: fixedPromise, resolve: fixedResolve } = Promise.withResolvers<void>();
+		evm.once('versions', (versions) => {
+			assert.deepEqual(versions, ['ok', 'failing']);
+			fixedResolve();
+		});
+		await createEngine('failing');
+		fakeWatcher.emit('change', join('failing', 'spring-dedicated'));
+		await fixedPromise;
+		assert.equal(evm.quarantinedEngines.has('failing'), false);
+
+		fakeWatcher.emit('unlinkDir', 'missing');
+		assert.equal(evm.quarantinedEngines.has('missing'), false);
+	});
+
+	test('revalidates available engines when binary changes', async () => {
+		await createEngine('ok');
+		const evm = new EngineVersionsManagerImpl(getEnv(fakeProbe));
+		fakeWatcher.emit('addDir', 'ok');
+		fakeWatcher.emit('ready');
+		await once(evm, 'versions');
+		assert.deepEqual(evm.engineVersions, ['ok']);
+
+		await createEngine('ok', 'fail');
+		fakeWatcher.emit('change', join('ok', 'spring-dedicated'));
+		assert.deepEqual(await once(evm, 'versions'), [[]]);
+		assert.equal(
+			evm.quarantinedEngines.get('ok'),
+			'version probe exited with code 1, signal null',
+		);
+
+		await createEngine('ok');
+		fakeWatcher.emit('change', join('ok', 'spring-dedicated'));
+		assert.deepEqual(await once(evm, 'versions'), [['ok']]);
+
+		await rm(join('engines', 'ok', 'spring-dedicated'));
+		fakeWatcher.emit('unlink', join('ok', 'spring-dedicated'));
+		assert.deepEqual(await once(evm, 'versions'), [[]]);
+		assert.equal(evm.quarantinedEngines.get('ok'), 'spring-dedicated not found');
+	});
+
+	test('quarantines engines with hanging version probe', async () => {
+		await createEngine('hanging');
+		const env = getEnv(((_cmd: string, _args: string[], opts: SpawnOptions) =>
+			spawn('sleep', ['10'], opts)) as typeof spawn);
+		env.config.engineProbeTimeoutSeconds = 0.05;
+		const evm = new EngineVersionsManagerImpl(env);
+
+		const { promise, resolve } = Promise.withResolvers<void>();
+		evm.once('versions', () => resolve());
+		fakeWatcher.emit('addDir', 'hanging');
+		fakeWatcher.emit('ready');
+		await promise;
+
+		assert.deepEqual(evm.engineVersions, []);
+		assert.deepEqual(
+			evm.quarantinedEngines.get('hanging'),
+			'version probe timed out after 0.05s',
+		);
+	});
+
+	suite('garbage collection', () => {
+		// Creates engines with modification times in the order of arguments.
+		async function createEngines(...versions: string[]) {
+			for (let i = 0; i < versions.length; ++i) {
+				await createEngine(versions[i]);
+				const mtime = new Date(2020, 1, 1 + i);
+				await utimes(join('engines', versions[i]), mtime, mtime);
+			}
+		}
+
+		async function startManager(env: Env): Promise<EngineVersionsManagerImpl> {
+			const evm = new EngineVersionsManagerImpl(env);
+			for (const version of await readdir('engines')) {
+				fakeWatcher.emit('addDir', version);
+			}
+			fakeWatcher.emit('ready');
+			await once(evm, 'gc');
+			return evm;
+		}
+
+		test('is disabled without limits', async () => {
+			await createEngines('1', '2', '3');
+			const env = getEnv(fakeProbe);
+			// As in a loaded config, where optional keys are left out.
+			delete (env.config as Partial<Env['config']>).maxEngineVersions;
+			delete (env.config as Partial<Env['config']>).maxEnginesDiskUsageMB;
+			const evm = new EngineVersionsManagerImpl(env);
+			const gc = mock.fn();
+			evm.on('gc', gc);
+			const { promise, resolve } = Promise.withResolvers<void>();
+			evm.on('versions', () => {
+				if (evm.engineVersions.length == 3) resolve();
+			});
+			for (const version of await readdir('engines')) {
+				fakeWatcher.emit('addDir', version);
+			}
+			fakeWatcher.emit('ready');
+			await promise;
+			await setTimeout(10);
+			assert.equal(gc.mock.callCount(), 0);
+			assert.deepEqual(evm.engineVersions.toSorted(), ['1', '2', '3']);
+		});
+
+		test('evicts least recently used above versions limit', async () => {
+			await createEngines('1', '2', '3', '4');
+			const env = getEnv(fakeProbe);
+			env.config.maxEngineVersions = 2;
+			const evm = await startManager(env);
+			assert.deepEqual(evm.engineVersions, ['3', '4']);
+			assert.deepEqual(await readdir('engines'), ['.install', '3', '4']);
+			assert.deepEqual(await readdir('engines/.install'), []);
+		});
+
+		test('evicts least recently used above disk usage limit', async () => {
+			await createEngines('1', '2', '3');
+			await writeFile('engines/2/big', Buffer.alloc(1024 * 1024));
+			await writeFile('engines/3/big', Buffer.alloc(1024 * 1024));
+			const env = getEnv(fakeProbe);
+			env.config.maxEnginesDiskUsageMB = 1.5;
+			const evm = await startManager(env);
+			assert.deepEqual(evm.engineVersions, ['3']);
+		});
+
+		test('never evicts pinned and kept versions', async () => {
+			await createEngines('1', '2', '3', '4');
+			const env = getEnv(fakeProbe);
+			env.config.maxEngineVersions = 1;
+			env.config.keepEngineVersions = ['2'];
+			const evm = new EngineVersionsManagerImpl(env);
+			const release = evm.acquireEngineVersion('1');
+			for (const version of ['1', '2', '3', '4']) {
+				fakeWatcher.emit('addDir', version);
+			}
+			fakeWatcher.emit('ready');
+			await once(evm, 'gc');
+			assert.deepEqual(evm.engineVersions.toSorted(), ['1', '2']);
+
+			// Once released, it's evicted.
+			const { promise, resolve } = Promise.withResolvers<void>();
+			evm.once('versions', (versions) => {
+				assert.deepEqual(versions, ['2']);
+				resolve();
+			});
+			release();
+			release(); // multiple releases are fine
+			await promise;
+		});
+
+		test('recently used versions are evicted last', async () => {
+			await createEngines('1', '2', '3');
+			const env = getEnv(fakeProbe);
+			env.config.maxEngineVersions = 3;
+			const evm = await startManager(env);
+			evm.acquireEngineVersion('1')();
+
+			await createEngine('4');
+			fakeWatcher.emit('addDir', '4');
+			await once(evm, 'gc');
+			assert.deepEqual(evm.engineVersions, ['1', '3', '4']);
+		});
+	});
+
+	suite('aliases', () => {
+		async function startManager(env: Env): Promise<EngineVersionsManagerImpl> {
+			const evm = new EngineVersionsManagerImpl(env);
+			for (const version of [
+				'105.1.1-999-gb BAR105',
+				'105.1.1-1000-ga BAR105',
+				'2025.01.1',
+			]) {
+				await createEngine(version);
+				fakeWatcher.emit('addDir', version);
+			}
+			fakeWatcher.emit('ready');
+			await once(evm, 'versions');
+			return evm;
+		}
+
+		test('resolves aliases to available versions', async () => {
+			const env = getEnv(fakeProbe);
+			env.config.engineAliases = {
+				'stable': { version: '2025.01.1', match: null, advertise: true },
+				'latest-bar': { version: null, match: 'BAR105$', advertise: true },
+				'hidden': { version: null, match: '^105\\.', advertise: false },
+				'missing': { version: '2025.02.1', match: null, advertise: true },
+			};
+			const evm = await startManager(env);
+			assert.equal(evm.resolveEngineVersion('stable'), '2025.01.1');
+			assert.equal(evm.resolveEngineVersion('latest-bar'), '105.1.1-1000-ga BAR105');
+			assert.equal(evm.resolveEngineVersion('hidden'), '105.1.1-1000-ga BAR105');
+			assert.equal(evm.resolveEngineVersion('missing'), undefined);
+			assert.equal(evm.resolveEngineVersion('2025.01.1'), '2025.01.1');
+			assert.equal(evm.resolveEngineVersion('unknown'), 'unknown');
+			assert.deepEqual(evm.advertisedEngineAliases, ['stable', 'latest-bar']);
+		});
+
+		test('never evicts alias targets', async () => {
+			const env = getEnv(fakeProbe);
+			env.config.maxEngineVersions = 1;
+			env.config.engineAliases = {
+				'latest-bar': { version: null, match: 'BAR105$', advertise: true },
+			};
+			const evm = await startManager(env);
+			await once(evm, 'gc');
+			assert.deepEqual(evm.engineVersions, ['105.1.1-1000-ga BAR105']);
+		});
+	});
+
+	suite('removeEngine', () => {
+		async function startManager(): Promise<EngineVersionsManagerImpl> {
+			await createEngine('1');
+			await createEngine('2');
+			const evm = new EngineVersionsManagerImpl(getEnv(fakeProbe));
+			fakeWatcher.emit('addDir', '1');
+			fakeWatcher.emit('addDir', '2');
+			fakeWatcher.emit('ready');
+			await once(evm, 'versions');
+			return evm;
+		}
+
+		test('removes unused engine', async () => {
+			const evm = await startManager();
+			await evm.removeEngine('1');
+			assert.deepEqual(evm.engineVersions, ['2']);
+			assert.deepEqual(await readdir('engines'), ['.install', '2']);
+			await assert.rejects(evm.removeEngine('1'));
+		});
+
+		test('defers removal of pinned engine until released', async () => {
+			const evm = await startManager();
+			const release1 = evm.acquireEngineVersion('1');
+			const release2 = evm.acquireEngineVersion('1');
+			await evm.removeEngine('1');
+			assert.deepEqual(evm.engineVersions, ['2']);
+			assert.deepEqual(await readdir('engines'), ['1', '2']);
+
+			release1();
+			await setTimeout(10);
+			assert.deepEqual(await readdir('engines'), ['1', '2']);
+
+			release2();
+			await setTimeout(10);
+			assert.deepEqual(await readdir('engines'), ['.install', '2']);
+		});
+
+		test('install cancels deferred removal', async () => {
+			const evm = await startManager();
+			const release = evm.acquireEngineVersion('1');
+			await evm.removeEngine('1');
+			assert.deepEqual(evm.engineVersions, ['2']);
+
+			await evm.installEngine('1');
+			assert.deepEqual(evm.engineVersions, ['2', '1']);
+			release();
+			await setTimeout(10);
+			assert.deepEqual(await readdir('engines'), ['1', '2']);
+		});
+	});
+
+	suite('installEngine', () => {
+		beforeEach(() => {
+			fake7z.mock.resetCalls();
+			archiveHandler = async (req) => `archive of ${req.url}`;
+		});
+
+		test('downloads and extracts engine', async () => {
+			const evm = new EngineVersionsManagerImpl(getEnv(fake7z));
+			await evm.installEngine('105.1.1-2590-gb9462a0 BAR105');
+
+			assert.equal(fake7z.mock.callCount(), 1);
+			assert.equal(
+				await readFile('engines/105.1.1-2590-gb9462a0 BAR105/spring-dedicated', 'utf-8'),
+				'archive of /engines/105.1.1-2590-gb9462a0%20BAR105.7z',
+			);
+			// Staging directory is cleaned up.
+			assert.deepEqual(await readdir('engines/.install'), []);
+		});
+
+		test('skips already installed engine', async () => {
+			await mkdir('engines/1.0');
+			const evm = new EngineVersionsManagerImpl(getEnv(fake7z));
+			await evm.installEngine('1.0');
+			assert.equal(fake7z.mock.callCount(), 0);
+		});
+
+		test('rejects invalid version names', async () => {
+			const evm = new EngineVersionsManagerImpl(getEnv(fake7z));
+			for (const version of ['../1.0', '.install', 'a/b', '']) {
+				await evm.installEngine(version);
+			}
+			assert.equal(fake7z.mock.callCount(), 0);
+			assert.deepEqual(await readdir('engines'), []);
+		});
+
+		test('download failure leaves no engine behind', async () => {
+			archiveHandler = async (_req, resp) => {
+				resp.code(404);
+				return 'not found';
+			};
+			const evm = new EngineVersionsManagerImpl(getEnv(fake7z));
+			await evm.installEngine('1.0');
+			assert.equal(fake7z.mock.callCount(), 0);
+			assert.deepEqual(await readdir('engines'), ['.install']);
+			assert.deepEqual(await readdir('engines/.install'), []);
+		});
+
+		test('extraction failure leaves no engine behind', async () => {
+			const evm = new EngineVersionsManagerImpl(
+				getEnv((() => {
+					const cp = new ChildProcess();
+					process.nextTick(() => cp.emit('exit', 2, null));
+					return cp;
+				}) as typeof spawn),
+			);
+			await evm.installEngine('1.0');
+			assert.deepEqual(await readdir('engines'), ['.install']);
+			assert.deepEqual(await readdir('engines/.install'), []);
+		});
+
+		test('installation times out', async () => {
+			const env = getEnv(fake7z);
+			env.config.engineInstallTimeoutSeconds = 0.05;
+			archiveHandler = async () => {
+				await setTimeout(300);
+				return 'too late';
+			};
+			const evm = new EngineVersionsManagerImpl(env);
+			await evm.installEngine('1.0');
+			assert.equal(fake7z.mock.callCount(), 0);
+			assert.deepEqual(await readdir('engines/.install'), []);
+			assert.match(
+				(evm.installs.get('1.0') as { reason: string }).reason,
+				/timed out after 0.05s/,
+			);
+		});
+
+		test('reports install progress', async () => {
+			const evm = new EngineVersionsManagerImpl(getEnv(fake7z));
+			const states: EngineInstallState[] = [];
+			evm.on('install', (version, state) => {
+				assert.equal(version, '1.0');
+				states.push(state);
+			});
+			await evm.installEngine('1.0');
+			const size = 'archive of /engines/1.0.7z'.length;
+			assert.deepEqual(states, [
+				{ status: 'queued' },
+				{ status: 'downloading', bytes: 0, total: size },
+				{ status: 'downloading', bytes: size, total: size },
+				{ status: 'verifying' },
+				{ status: 'extracting' },
+				{ status: 'done' },
+			]);
+			assert.deepEqual(evm.installs.get('1.0'), { status: 'done' });
+		});
+
+		test('reports install failure', async () => {
+			const evm = new EngineVersionsManagerImpl(
+				getEnv((() => {
+					const cp = new ChildProcess();
+					process.nextTick(() => cp.emit('exit', 2, null));
+					return cp;
+				}) as typeof spawn),
+			);
+			await evm.installEngine('1.0');
+			assert.deepEqual(evm.installs.get('1.0'), {
+				status: 'failed',
+				reason: 'failed to extract engine archive, 7z exited with code 2, signal null',
+			});
+		});
+
+		test('coalesces concurrent installs of the same version', async () => {
+			const evm = new EngineVersionsManagerImpl(getEnv(fake7z));
+			const p1 = evm.installEngine('1.0');
+			const p2 = evm.installEngine('1.0');
+			assert.equal(p1, p2);
+			await Promise.all([p1, p2]);
+			assert.equal(fake7z.mock.callCount(), 1);
+
+			// Once finished, new request starts new installation attempt.
+			await rm('engines/1.0', { recursive: true });
+			await evm.installEngine('1.0');
+			assert.equal(fake7z.mock.callCount(), 2);
+		});
+
+		test('queues installs above concurrency limit', async () => {
+			const evm = new EngineVersionsManagerImpl(getEnv(fake7z));
+			const started: string[] = [];
+			evm.on('install', (version, state) => {
+				if (state.status == 'downloading' && state.bytes == 0) {
+					started.push(version);
+					// Only one installation is allowed at the same time.
+					for (const [v, s] of evm.installs) {
+						if (v != version) {
+							assert.ok(['queued', 'done'].includes(s.status));
+						}
+					}
+				}
+			});
+			await Promise.all([
+				evm.installEngine('1.0'),
+				evm.installEngine('2.0'),
+				evm.installEngine('3.0'),
+			]);
+			assert.deepEqual(started, ['1.0', '2.0', '3.0']);
+			assert.deepEqual(await readdir('engines'), ['.install', '1.0', '2.0', '3.0']);
+		});
+
+		suite('verification', () => {
+			const sha256 = (s: string) => createHash('sha256').update(s).digest('hex');
+			const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+
+			function getVerifyingEnv(): Env {
+				const env = getEnv(fake7z);
+				env.config.engineChecksumsUrlTemplate = `http://localhost:${PORT}/checksums/{version}`;
+				return env;
+			}
+
+			beforeEach(() => {
+				checksums = [
+					`${sha256('archive of /engines/1.0.7z')}  1.0.7z`,
+					`${sha256('archive of /engines/2.0.7z')} *2.0.7z`,
+					`${sha256('something else')}  3.0.7z`,
+				].join('\n');
+				signature = sign(null, Buffer.from(checksums), privateKey);
+			});
+
+			test('installs engine with matching checksum', async () => {
+				const evm = new EngineVersionsManagerImpl(getVerifyingEnv());
+				await evm.installEngine('1.0');
+				await evm.installEngine('2.0');
+				assert.deepEqual(evm.installs.get('1.0'), { status: 'done' });
+				assert.deepEqual(evm.installs.get('2.0'), { status: 'done' });
+				assert.deepEqual(await readdir('engines'), ['.install', '1.0', '2.0']);
+			});
+
+			test('rejects archive with mismatched checksum', async () => {
+				const evm = new EngineVersionsManagerImpl(getVerifyingEnv());
+				await evm.installEngine('3.0');
+				const state = evm.installs.get('3.0') as { status: string; reason: string };
+				assert.equal(state.status, 'failed');
+				assert.match(state.reason, /checksum mismatch for 3.0.7z/);
+				assert.equal(fake7z.mock.callCount(), 0);
+				assert.deepEqual(await readdir('engines'), ['.install']);
+			});
+
+			test('rejects archive missing in manifest', async () => {
+				const evm = new EngineVersionsManagerImpl(getVerifyingEnv());
+				await evm.installEngine('4.0');
+				const state = evm.installs.get('4.0') as { status: string; reason: string };
+				assert.match(state.reason, /no checksum for 4.0.7z/);
+				assert.equal(fake7z.mock.callCount(), 0);
+			});
+
+			test('uses local checksums manifest', async () => {
+				await writeFile('SHA256SUMS', `${sha256('something else')}  1.0.7z\n`);
+				const env = getVerifyingEnv();
+				env.config.engineChecksumsFile = 'SHA256SUMS';
+				const evm = new EngineVersionsManagerImpl(env);
+				await evm.installEngine('1.0');
+				const state = evm.installs.get('1.0') as { status: string; reason: string };
+				assert.match(state.reason, /checksum mismatch/);
+			});
+
+			test('verifies manifest signature', async () => {
+				await writeFile('key.pem', publicKey.export({ type: 'spki', format: 'pem' }));
+				const env = getVerifyingEnv();
+				env.config.engineSigningPublicKeyFile = 'key.pem';
+				env.config.engineSignatureUrlTemplate = `http://localhost:${PORT}/signatures/{version}`;
+				const evm = new EngineVersionsManagerImpl(env);
+				await evm.installEngine('1.0');
+				assert.deepEqual(evm.installs.get('1.0'), { status: 'done' });
+
+				checksums = checksums.replace(
+					sha256('something else'),
+					sha256('archive of /engines/3.0.7z'),
+				);
+				await evm.installEngine('3.0');
+				const state = evm.installs.get('3.0') as { status: string; reason: string };
+				assert.match(state.reason, /invalid signature/);
+				assert.deepEqual(await readdir('engines'), ['.install', '1.0']);
+			});
+
+			test('fails with signing key but no checksums', async () => {
+				await writeFile('key.pem', publicKey.export({ type: 'spki', format: 'pem' }));
+				const env = getVerifyingEnv();
+				env.config.engineChecksumsUrlTemplate = null;
+				env.config.engineSigningPublicKeyFile = 'key.pem';
+				env.config.engineSignatureUrlTemplate = `http://localhost:${PORT}/signatures/{version}`;
+				const evm = new EngineVersionsManagerImpl(env);
+				await evm.installEngine('1.0');
+				const state = evm.installs.get('1.0') as { status: string; reason: string };
+				assert.equal(state.status, 'failed');
+				assert.match(state.reason, /must be set when engineSigningPublicKeyFile is set/);
+				assert.equal(fake7z.mock.callCount(), 0);
+				assert.deepEqual(await readdir('engines'), ['.install']);
+			});
+		});
+	});
 });
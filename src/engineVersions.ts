@@ -6,36 +6,164 @@
  * Module with functionality responsible for managing installed engine versions.
  */
 import { spawn } from 'node:child_process';
+import { createHash, createPublicKey, verify } from 'node:crypto';
+import { once } from 'node:events';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
 import { TypedEmitter } from 'tiny-typed-emitter';
 import { Environment } from './environment.js';
+import { exists, isSafeFileName, withStagingDir } from './fsUtils.js';
 import { FSWatcher } from 'chokidar';
 import fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * State of a single engine installation.
+ *
+ * The possible transitions are:
+ * - queued -> downloading -> verifying -> extracting -> done
+ * - any state before done -> failed
+ */
+export type EngineInstallState =
+	| { status: 'queued' }
+	| { status: 'downloading'; bytes: number; total: number | null }
+	| { status: 'extracting' }
+	| { status: 'verifying' }
+	| { status: 'done' }
+	| { status: 'failed'; reason: string };
 
 export interface EngineVersionsManagerEvents {
 	versions: (versions: string[]) => void;
 	error: (err: Error) => void;
+
+	// Emitted every time the state of engine installation changes. Progress
+	// of downloading is emitted at most every `INSTALL_PROGRESS_INTERVAL_MS`.
+	install: (version: string, state: EngineInstallState) => void;
+
+	// Emitted after garbage collection of engine versions finished.
+	gc: () => void;
 }
 
 export interface EngineVersionsManager extends TypedEmitter<EngineVersionsManagerEvents> {
 	installEngine(version: string): void;
 	readonly engineVersions: string[];
+
+	// Engine directories that failed validation and aren't advertised, mapped
+	// to the reason of the failure.
+	readonly quarantinedEngines: ReadonlyMap<string, string>;
+
+	// The last known state of every installation requested since startup.
+	readonly installs: ReadonlyMap<string, EngineInstallState>;
+
+	/**
+	 * Mark the engine version as used by a battle.
+	 *
+	 * The version is pinned and won't be garbage collected until the returned
+	 * function is called.
+	 *
+	 * @returns Function releasing the engine version, safe to call many times.
+	 */
+	acquireEngineVersion(version: string): () => void;
+
+	/**
+	 * Remove the engine version from disk.
+	 *
+	 * The engine stops being advertised immediately, but if it's used by
+	 * running battles, the removal from disk is deferred until all of them
+	 * release it.
+	 */
+	removeEngine(version: string): Promise<void>;
+
+	// Configured aliases advertised to the server that currently resolve to
+	// one of the available engine versions.
+	readonly advertisedEngineAliases: string[];
+
+	/**
+	 * Resolve engine version alias to the concrete engine version.
+	 *
+	 * @returns The engine version the alias points to, the passed version
+	 *     itself if it's not an alias, or undefined if the alias doesn't point
+	 *     to any available engine version.
+	 */
+	resolveEngineVersion(version: string): string | undefined;
 	close(): Promise<void>;
 }
 
 interface Config {
 	engineInstallTimeoutSeconds: number;
+	engineDownloadUrlTemplate: string | null;
+	engineChecksumsUrlTemplate: string | null;
+	engineChecksumsFile: string | null;
+	engineSignatureUrlTemplate: string | null;
+	engineSigningPublicKeyFile: string | null;
+	maxConcurrentEngineInstalls: number;
+	engineProbeTimeoutSeconds: number;
+	maxEngineVersions: number | null;
+	maxEnginesDiskUsageMB: number | null;
+	keepEngineVersions: string[];
+	engineAliases: {
+		[alias: string]: { version: string | null; match: string | null; advertise: boolean };
+	};
 }
 
+const INSTALL_PROGRESS_INTERVAL_MS = 1000;
+
+// Staging directory inside of `engines` used for downloading and extracting
+// engines, and for removing evicted ones.
+const INSTALL_STAGING_DIR = '.install';
+
 interface Mocks {
 	spawn?: typeof spawn;
 }
 
 export type Env = Environment<Config, Mocks>;
 
+/**
+ * Errors thrown when installing of the engine fails.
+ */
+export class EngineInstallError extends Error {
+	constructor(msg: string, options?: ErrorOptions) {
+		super(msg, options);
+		this.name = 'EngineInstallError';
+	}
+}
+
 /**
  * EngineVersionsManager handles installation and listing of engine versions.
  *
- * TODO: Implement installEngine method.
+ * Every directory that appears in `engines` is validated before it's advertised
+ * as available: it must contain executable `spring-dedicated` that successfully
+ * responds to `--version`. Directories failing validation are quarantined
+ * until the binary changes, e.g. when it was still being copied. Available
+ * engines are validated again whenever their binary changes too, so a
+ * replaced or truncated binary is withdrawn before battles fail to start.
+ *
+ * Engines are installed by downloading an archive from `engineDownloadUrlTemplate`
+ * and extracting it with 7z into a staging directory that is then atomically
+ * renamed to `engines/<version>`. The directory watcher picks up the new
+ * version from there, exactly the same as if it was copied by hand.
+ *
+ * Before extraction, the archive is verified against the SHA-256 checksums
+ * manifest in the `sha256sum` format, and if a public key is configured, the
+ * manifest itself is verified against its detached signature.
+ *
+ * Concurrent requests to install the same version are coalesced into a single
+ * installation, and at most `maxConcurrentEngineInstalls` different versions
+ * are installed in parallel, the rest waits in the queue.
+ *
+ * When the number of engines exceeds `maxEngineVersions` or their size exceeds
+ * `maxEnginesDiskUsageMB`, the least recently used engines are removed. Engines
+ * used by running battles, in `keepEngineVersions` and pointed to by aliases are
+ * never removed.
+ *
+ * Aliases from `engineAliases` point either to a fixed engine version, or to
+ * a channel: the newest available version matching the regular expression.
+ * They are resolved when the battle starts, so changing the alias doesn't
+ * affect running battles.
+ *
+ * All removals of engines go through `removeEngine` that respects the count of
+ * battles using the engine version, so engines are never removed from under
+ * running battles by the autohost itself.
  */
 export class EngineVersionsManagerImpl
 	extends TypedEmitter<EngineVersionsManagerEvents>
@@ -44,6 +172,23 @@ export class EngineVersionsManagerImpl
 	private logger: Env['logger'];
 	private env: Env;
 	public engineVersions: string[] = [];
+	public quarantinedEngines: Map<string, string> = new Map();
+	// All engine directories seen by watcher, whatever valid or not.
+	private engineDirs: Set<string> = new Set();
+	private pendingValidations: Map<string, Promise<void>> = new Map();
+	public installs: Map<string, EngineInstallState> = new Map();
+	private pendingInstalls: Map<string, Promise<void>> = new Map();
+	private installQueue: (() => void)[] = [];
+	private activeInstalls = 0;
+	// Number of running battles using the engine version.
+	private engineRefs: Map<string, number> = new Map();
+	// Unix timestamp in ms when engine version was last used by battle.
+	private engineLastUsed: Map<string, number> = new Map();
+	private engineSizes: Map<string, number> = new Map();
+	// Versions that should be removed once no battle uses them.
+	private pendingRemovals: Set<string> = new Set();
+	private gcRunning = false;
+	private gcRequested = false;
 	private watcher: FSWatcher;
 	// We buffer `versions` events until the initial scan is complete to avoid
 	// emitting an event for each engine individually at startup.
@@ -56,16 +201,23 @@ export class EngineVersionsManagerImpl
 
 		fs.mkdirSync('engines', { recursive: true });
 
+		// Depth 1 to also observe the engine binaries in engine directories.
 		this.watcher = new FSWatcher({
 			cwd: 'engines',
-			depth: 0,
+			depth: 1,
 		});
 
-		this.watcher.on('addDir', (path) => this.addEngineVersion(path));
-		this.watcher.on('unlinkDir', (path) => this.removeEngineVersion(path));
-		this.watcher.on('ready', () => {
+		this.watcher.on('addDir', (path) => this.addEngineDir(path));
+		this.watcher.on('unlinkDir', (path) => this.engineDirUnlinked(path));
+		this.watcher.on('add', (path) => this.engineFileChanged(path));
+		this.watcher.on('change', (path) => this.engineFileChanged(path));
+		this.watcher.on('unlink', (path) => this.engineFileChanged(path));
+		this.watcher.on('ready', async () => {
+			// Validations never reject.
+			await Promise.all(this.pendingValidations.values());
 			this.ready = true;
 			this.emit('versions', this.engineVersions);
+			this.scheduleGc();
 		});
 		this.watcher.on('error', (error: unknown) => {
 			if (error instanceof Error) {
@@ -78,16 +230,121 @@ export class EngineVersionsManagerImpl
 		this.watcher.add('.');
 	}
 
-	private addEngineVersion(version: string) {
+	private addEngineDir(version: string) {
 		// Chokidar emits an 'addDir' event with an empty path for the root
 		// directory itself, which we need to ignore.
 		if (version === '') {
 			return;
 		}
+		// Hidden directories, e.g. the install staging directory, aren't engines,
+		// and subdirectories of engines are irrelevant.
+		if (version.startsWith('.') || version.includes(path.sep)) {
+			return;
+		}
+		this.engineDirs.add(version);
+		this.scheduleValidation(version);
+	}
+
+	private engineDirUnlinked(version: string) {
+		const refs = this.engineRefs.get(version);
+		if (refs && this.engineDirs.has(version)) {
+			this.logger.error(
+				{ version, refs },
+				'engine directory removed externally while used by running battles, they might break',
+			);
+		}
+		this.removeEngineDir(version);
+	}
+
+	private removeEngineDir(version: string) {
+		if (!this.engineDirs.delete(version)) {
+			return;
+		}
+		this.quarantinedEngines.delete(version);
+		this.pendingRemovals.delete(version);
+		this.engineSizes.delete(version);
+		this.removeEngineVersion(version);
+	}
+
+	private engineFileChanged(file: string) {
+		// The initial scan validates every engine directory already.
+		if (!this.ready) return;
+		const [version, name] = file.split(path.sep);
+		if (name === 'spring-dedicated' && this.engineDirs.has(version)) {
+			this.scheduleValidation(version);
+		}
+	}
+
+	private scheduleValidation(version: string) {
+		// Validations of the same version are executed sequentially.
+		const validation = (this.pendingValidations.get(version) ?? Promise.resolve())
+			.then(() => this.validateEngine(version))
+			.finally(() => {
+				if (this.pendingValidations.get(version) === validation) {
+					this.pendingValidations.delete(version);
+				}
+			});
+		this.pendingValidations.set(version, validation);
+	}
+
+	private async validateEngine(version: string): Promise<void> {
+		if (!this.engineDirs.has(version)) return;
+		let reason: string | null = null;
+		try {
+			await this.probeEngine(version);
+		} catch (err) {
+			reason = err instanceof Error ? err.message : String(err);
+		}
+		// It could have been removed while we were probing it.
+		if (!this.engineDirs.has(version)) return;
+
+		if (reason === null) {
+			this.quarantinedEngines.delete(version);
+			if (!this.pendingRemovals.has(version)) {
+				this.addEngineVersion(version);
+			}
+		} else {
+			this.logger.warn({ version, reason }, 'engine failed validation, quarantined');
+			this.quarantinedEngines.set(version, reason);
+			this.removeEngineVersion(version);
+		}
+	}
+
+	private async probeEngine(version: string): Promise<void> {
+		const binary = path.resolve('engines', version, 'spring-dedicated');
+		try {
+			await fs.promises.access(binary, fs.constants.X_OK);
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+				throw new Error('spring-dedicated not found');
+			}
+			throw new Error('spring-dedicated is not executable');
+		}
+		const timeoutSeconds = this.env.config.engineProbeTimeoutSeconds;
+		const proc = (this.env.mocks?.spawn ?? spawn)(binary, ['--version'], {
+			stdio: 'ignore',
+			signal: AbortSignal.timeout(timeoutSeconds * 1000),
+		});
+		let code, signal;
+		try {
+			[code, signal] = await once(proc, 'exit');
+		} catch (err) {
+			if ((err as Error).name === 'AbortError') {
+				throw new Error(`version probe timed out after ${timeoutSeconds}s`);
+			}
+			throw new Error(`version probe failed: ${(err as Error).message}`);
+		}
+		if (code !== 0) {
+			throw new Error(`version probe exited with code ${code}, signal ${signal}`);
+		}
+	}
+
+	private addEngineVersion(version: string) {
 		if (!this.engineVersions.includes(version)) {
 			this.engineVersions.push(version);
 			if (this.ready) {
 				this.emit('versions', this.engineVersions);
+				this.scheduleGc();
 			}
 		}
 	}
@@ -102,11 +359,473 @@ export class EngineVersionsManagerImpl
 		}
 	}
 
-	public installEngine(version: string) {
-		this.logger.info({ version }, 'got request to install engine, not implemented');
+	/**
+	 * Install engine version in the background.
+	 *
+	 * Errors are only logged and reflected in the install state, the returned
+	 * promise never rejects and resolves once the installation attempt has
+	 * finished. Requests for version that is already being installed return
+	 * the promise of the pending installation.
+	 */
+	public installEngine(version: string): Promise<void> {
+		const pending = this.pendingInstalls.get(version);
+		if (pending) {
+			this.logger.info({ version }, 'engine installation already in progress');
+			return pending;
+		}
+		this.logger.info({ version }, 'got request to install engine');
+		this.setInstallState(version, { status: 'queued' });
+		const install = this.acquireInstallSlot()
+			.then(() => this.doInstallEngine(version))
+			.then(
+				(installed) => {
+					if (installed) {
+						this.logger.info({ version }, 'engine installed');
+					}
+					this.setInstallState(version, { status: 'done' });
+				},
+				(err) => {
+					this.logger.error({ version, err }, 'failed to install engine');
+					this.setInstallState(version, { status: 'failed', reason: err.message });
+				},
+			)
+			.finally(() => {
+				this.pendingInstalls.delete(version);
+				this.releaseInstallSlot();
+			});
+		this.pendingInstalls.set(version, install);
+		return install;
+	}
+
+	private setInstallState(version: string, state: EngineInstallState) {
+		this.installs.set(version, state);
+		this.emit('install', version, state);
+	}
+
+	private async acquireInstallSlot(): Promise<void> {
+		if (this.activeInstalls < this.env.config.maxConcurrentEngineInstalls) {
+			++this.activeInstalls;
+			return;
+		}
+		// Slot is handed over directly from the finished installation, so
+		// we don't increment activeInstalls here.
+		return new Promise((resolve) => this.installQueue.push(resolve));
+	}
+
+	private releaseInstallSlot() {
+		const next = this.installQueue.shift();
+		if (next) {
+			next();
+		} else {
+			--this.activeInstalls;
+		}
+	}
+
+	/**
+	 * Download and extract the engine into `engines/<version>`.
+	 *
+	 * @returns false if the engine version was already installed.
+	 */
+	private async doInstallEngine(version: string): Promise<boolean> {
+		const urlTemplate = this.env.config.engineDownloadUrlTemplate;
+		if (!urlTemplate) {
+			throw new EngineInstallError('engineDownloadUrlTemplate is not configured');
+		}
+		if (!isSafeFileName(version)) {
+			throw new EngineInstallError(`invalid engine version name: ${JSON.stringify(version)}`);
+		}
+		const engineDir = path.join('engines', version);
+		if (this.pendingRemovals.delete(version)) {
+			this.logger.info({ version }, 'engine install requested, cancelling deferred removal');
+			if (!this.quarantinedEngines.has(version)) {
+				this.addEngineVersion(version);
+			}
+			return false;
+		}
+		if (await exists(engineDir)) {
+			this.logger.info({ version }, 'engine already installed, skipping');
+			return false;
+		}
+
+		const signal = AbortSignal.timeout(this.env.config.engineInstallTimeoutSeconds * 1000);
+		const stagingBase = path.join('engines', INSTALL_STAGING_DIR);
+		return withStagingDir(stagingBase, 'engine-', async (stagingDir) => {
+			try {
+				const archivePath = path.join(stagingDir, 'engine.7z');
+				const url = expandUrlTemplate(urlTemplate, version);
+				await this.download(url, archivePath, signal, (bytes, total) =>
+					this.setInstallState(version, { status: 'downloading', bytes, total }),
+				);
+
+				this.setInstallState(version, { status: 'verifying' });
+				await this.verifyArchive(version, url, archivePath, signal);
+
+				this.setInstallState(version, { status: 'extracting' });
+				const extractDir = path.join(stagingDir, 'engine');
+				await this.extract(archivePath, extractDir, signal);
+				if (!(await exists(path.join(extractDir, 'spring-dedicated')))) {
+					throw new EngineInstallError(
+						'engine archive does not contain spring-dedicated',
+					);
+				}
+
+				// Someone could have installed the same version in the meantime,
+				// rename would fail anyway for non empty directory but let's be
+				// explicit about it.
+				if (await exists(engineDir)) {
+					this.logger.warn({ version }, 'engine got installed concurrently, dropping');
+					return false;
+				}
+				await fs.promises.rename(extractDir, engineDir);
+				return true;
+			} catch (err) {
+				if (signal.aborted) {
+					throw new EngineInstallError(
+						`engine installation timed out after ${this.env.config.engineInstallTimeoutSeconds}s`,
+						{ cause: err },
+					);
+				}
+				throw err;
+			}
+		});
+	}
+
+	/**
+	 * Verify the downloaded archive against the checksums manifest.
+	 *
+	 * The manifest entry is matched by the file name of the archive URL.
+	 */
+	private async verifyArchive(
+		version: string,
+		archiveUrl: string,
+		archivePath: string,
+		signal: AbortSignal,
+	): Promise<void> {
+		const { config } = this.env;
+		let manifest: Buffer;
+		if (config.engineChecksumsFile) {
+			manifest = await fs.promises.readFile(config.engineChecksumsFile);
+		} else if (config.engineChecksumsUrlTemplate) {
+			manifest = await fetchBuffer(
+				expandUrlTemplate(config.engineChecksumsUrlTemplate, version),
+				signal,
+			);
+		} else if (config.engineSigningPublicKeyFile) {
+			// Signing key promises verified installs, never fall back to none.
+			throw new EngineInstallError(
+				'engineChecksumsFile or engineChecksumsUrlTemplate must be set when engineSigningPublicKeyFile is set',
+			);
+		} else {
+			this.logger.warn({ version }, 'no engine checksums configured, skipping verification');
+			return;
+		}
+
+		if (config.engineSigningPublicKeyFile) {
+			if (!config.engineSignatureUrlTemplate) {
+				throw new EngineInstallError(
+					'engineSignatureUrlTemplate must be set when engineSigningPublicKeyFile is set',
+				);
+			}
+			const key = createPublicKey(
+				await fs.promises.readFile(config.engineSigningPublicKeyFile),
+			);
+			const signature = await fetchBuffer(
+				expandUrlTemplate(config.engineSignatureUrlTemplate, version),
+				signal,
+			);
+			// EdDSA keys don't take separate digest algorithm.
+			const algorithm =
+				key.asymmetricKeyType == 'ed25519' || key.asymmetricKeyType == 'ed448'
+					? null
+					: 'sha256';
+			if (!verify(algorithm, manifest, key, signature)) {
+				throw new EngineInstallError('invalid signature of engine checksums manifest');
+			}
+		}
+
+		const archiveName = decodeURIComponent(path.posix.basename(new URL(archiveUrl).pathname));
+		const expected = parseChecksumsManifest(manifest.toString('utf-8')).get(archiveName);
+		if (!expected) {
+			throw new EngineInstallError(`no checksum for ${archiveName} in checksums manifest`);
+		}
+		const hash = createHash('sha256');
+		await pipeline(fs.createReadStream(archivePath), hash, { signal });
+		const actual = hash.digest('hex');
+		if (actual !== expected) {
+			throw new EngineInstallError(
+				`checksum mismatch for ${archiveName}: expected ${expected}, got ${actual}`,
+			);
+		}
+	}
+
+	private async download(
+		url: string,
+		dest: string,
+		signal: AbortSignal,
+		onProgress: (bytes: number, total: number | null) => void,
+	): Promise<void> {
+		this.logger.debug({ url }, 'downloading engine');
+		const res = await fetch(url, { signal });
+		if (!res.ok || !res.body) {
+			throw new EngineInstallError(`failed to download ${url}: status ${res.status}`);
+		}
+		const contentLength = parseInt(res.headers.get('content-length') ?? '', 10);
+		const total = Number.isNaN(contentLength) ? null : contentLength;
+		let bytes = 0;
+		let lastProgress = Date.now();
+		onProgress(bytes, total);
+		const progress = new Transform({
+			transform(chunk: Buffer, _encoding, callback) {
+				bytes += chunk.length;
+				const now = Date.now();
+				if (now - lastProgress >= INSTALL_PROGRESS_INTERVAL_MS) {
+					lastProgress = now;
+					onProgress(bytes, total);
+				}
+				callback(null, chunk);
+			},
+		});
+		await pipeline(Readable.fromWeb(res.body), progress, fs.createWriteStream(dest), {
+			signal,
+		});
+		onProgress(bytes, total);
+	}
+
+	private async extract(archive: string, dest: string, signal: AbortSignal): Promise<void> {
+		const proc = (this.env.mocks?.spawn ?? spawn)('7z', ['x', '-y', `-o${dest}`, archive], {
+			stdio: 'ignore',
+			signal,
+		});
+		const [code, procSignal] = (await once(proc, 'exit')) as [number | null, string | null];
+		if (code !== 0) {
+			throw new EngineInstallError(
+				`failed to extract engine archive, 7z exited with code ${code}, signal ${procSignal}`,
+			);
+		}
+	}
+
+	public acquireEngineVersion(version: string): () => void {
+		this.engineRefs.set(version, (this.engineRefs.get(version) ?? 0) + 1);
+		this.engineLastUsed.set(version, Date.now());
+		let released = false;
+		return () => {
+			if (released) return;
+			released = true;
+			const refs = this.engineRefs.get(version)! - 1;
+			if (refs > 0) {
+				this.engineRefs.set(version, refs);
+			} else {
+				this.engineRefs.delete(version);
+			}
+			this.engineLastUsed.set(version, Date.now());
+			if (refs <= 0 && this.pendingRemovals.has(version)) {
+				this.removeEngine(version).catch((err) =>
+					this.logger.error({ version, err }, 'failed to remove engine'),
+				);
+			}
+			this.scheduleGc();
+		};
+	}
+
+	get advertisedEngineAliases(): string[] {
+		return Object.entries(this.env.config.engineAliases)
+			.filter(([alias, { advertise }]) => advertise && this.resolveAlias(alias) !== undefined)
+			.map(([alias]) => alias);
+	}
+
+	public resolveEngineVersion(version: string): string | undefined {
+		if (!Object.hasOwn(this.env.config.engineAliases, version)) {
+			return version;
+		}
+		return this.resolveAlias(version);
+	}
+
+	private resolveAlias(alias: string): string | undefined {
+		const { version, match } = this.env.config.engineAliases[alias];
+		if (version) {
+			return this.engineVersions.includes(version) ? version : undefined;
+		}
+		if (match) {
+			const re = new RegExp(match);
+			return this.engineVersions
+				.filter((v) => re.test(v))
+				.sort(compareEngineVersions)
+				.at(-1);
+		}
+		return undefined;
+	}
+
+	public async removeEngine(version: string): Promise<void> {
+		if (!this.engineDirs.has(version)) {
+			throw new Error(`engine version ${version} is not installed`);
+		}
+		const refs = this.engineRefs.get(version);
+		if (refs) {
+			this.logger.warn(
+				{ version, refs },
+				'engine version used by running battles, deferring removal',
+			);
+			this.pendingRemovals.add(version);
+			this.removeEngineVersion(version);
+			return;
+		}
+		this.logger.info({ version }, 'removing engine version');
+		await this.deleteEngineDir(version);
+	}
+
+	/**
+	 * Schedule garbage collection of engine versions.
+	 *
+	 * Only a single collection runs at a time, and requests made while it's
+	 * running cause it to run again after it finishes.
+	 */
+	private scheduleGc() {
+		const { maxEngineVersions, maxEnginesDiskUsageMB } = this.env.config;
+		if (maxEngineVersions == null && maxEnginesDiskUsageMB == null) return;
+		if (this.gcRunning) {
+			this.gcRequested = true;
+			return;
+		}
+		this.gcRunning = true;
+		this.gcRequested = false;
+		this.collectGarbage()
+			.catch((err) => this.logger.error(err, 'engine garbage collection failed'))
+			.finally(() => {
+				this.gcRunning = false;
+				if (this.gcRequested) {
+					this.scheduleGc();
+				} else {
+					this.emit('gc');
+				}
+			});
+	}
+
+	private async collectGarbage(): Promise<void> {
+		const { maxEngineVersions, maxEnginesDiskUsageMB, keepEngineVersions } = this.env.config;
+
+		const engines: { version: string; lastUsed: number; size: number }[] = [];
+		for (const version of this.engineDirs) {
+			const dir = path.join('engines', version);
+			let lastUsed = this.engineLastUsed.get(version);
+			if (lastUsed === undefined) {
+				// Never used since startup, so let's fallback to the time it was
+				// installed, approximated by directory modification time.
+				lastUsed = (await fs.promises.lstat(dir)).mtimeMs;
+			}
+			let size = 0;
+			if (maxEnginesDiskUsageMB != null) {
+				size = this.engineSizes.get(version) ?? (await diskUsage(dir));
+				this.engineSizes.set(version, size);
+			}
+			engines.push({ version, lastUsed, size });
+		}
+		// The state could have changed while we were awaiting above, but it
+		// only matters for the candidates we will remove and we verify them
+		// synchronously before removal.
+		let count = engines.length;
+		let totalSize = engines.reduce((acc, e) => acc + e.size, 0);
+		const maxSize = (maxEnginesDiskUsageMB ?? Infinity) * 1024 * 1024;
+		const candidates = engines
+			.filter(
+				(e) =>
+					!keepEngineVersions.includes(e.version) && !this.pendingRemovals.has(e.version),
+			)
+			.sort((a, b) => a.lastUsed - b.lastUsed);
+		const aliasTargets = new Set(
+			Object.keys(this.env.config.engineAliases).map((alias) => this.resolveAlias(alias)),
+		);
+		for (const { version, size } of candidates) {
+			if (count <= (maxEngineVersions ?? Infinity) && totalSize <= maxSize) {
+				break;
+			}
+			if (
+				this.engineRefs.has(version) ||
+				!this.engineDirs.has(version) ||
+				aliasTargets.has(version)
+			) {
+				continue;
+			}
+			this.logger.info({ version }, 'evicting least recently used engine version');
+			await this.removeEngine(version);
+			count -= 1;
+			totalSize -= size;
+		}
+		if (count > (maxEngineVersions ?? Infinity) || totalSize > maxSize) {
+			this.logger.warn(
+				{ count, totalSizeMB: Math.round(totalSize / 1024 / 1024) },
+				'engines exceed configured limits but no more versions can be evicted',
+			);
+		}
+	}
+
+	/**
+	 * Removes the engine directory from disk.
+	 *
+	 * The engine is removed from the available versions synchronously, before
+	 * it's removed from disk.
+	 */
+	private async deleteEngineDir(version: string): Promise<void> {
+		this.removeEngineDir(version);
+		this.engineLastUsed.delete(version);
+		const stagingBase = path.join('engines', INSTALL_STAGING_DIR);
+		// Rename first, so that the engine disappears from engines atomically.
+		await withStagingDir(stagingBase, 'removed-', (removedDir) =>
+			fs.promises.rename(path.join('engines', version), path.join(removedDir, 'engine')),
+		);
 	}
 
 	public close(): Promise<void> {
 		return this.watcher.close();
 	}
 }
+
+function expandUrlTemplate(template: string, version: string): string {
+	return template.replaceAll('{version}', encodeURIComponent(version));
+}
+
+async function fetchBuffer(url: string, signal: AbortSignal): Promise<Buffer> {
+	const res = await fetch(url, { signal });
+	if (!res.ok) {
+		throw new EngineInstallError(`failed to download ${url}: status ${res.status}`);
+	}
+	return Buffer.from(await res.arrayBuffer());
+}
+
+/**
+ * Compare engine versions so that newer versions are sorted last.
+ *
+ * Engine versions look like `105.1.1-2590-gb9462a0`, so comparing the numeric
+ * parts as numbers gives the expected order.
+ */
+export function compareEngineVersions(a: string, b: string): number {
+	return a.localeCompare(b, 'en', { numeric: true });
+}
+
+/**
+ * Parse checksums manifest in the format produced by `sha256sum` tool.
+ *
+ * @returns Map from file name to the lowercase hex encoded SHA-256 hash.
+ */
+export function parseChecksumsManifest(manifest: string): Map<string, string> {
+	const checksums = new Map<string, string>();
+	for (const line of manifest.split('\n')) {
+		// The '*' marks binary mode and it's irrelevant for us.
+		const m = line.trimEnd().match(/^([0-9a-fA-F]{64}) [ *](.+)$/);
+		if (m) {
+			checksums.set(m[2], m[1].toLowerCase());
+		}
+	}
+	return checksums;
+}
+
+async function diskUsage(p: string): Promise<number> {
+	const stat = await fs.promises.lstat(p);
+	if (!stat.isDirectory()) {
+		return stat.size;
+	}
+	let total = stat.size;
+	for (const entry of await fs.promises.readdir(p)) {
+		total += await diskUsage(path.join(p, entry));
+	}
+	return total;
+}
@@ -0,0 +1,46 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { exists, isSafeFileName, withStagingDir } from './fsUtils.js';
+
+test('isSafeFileName', () => {
+	assert.ok(isSafeFileName('game-1.2.sd7'));
+	assert.ok(isSafeFileName('105.1.1-2590-gb9462a0 bar'));
+	for (const name of ['', '.', '..', '.install', 'a/b', 'a\\b', 'a\0b', 'x'.repeat(256)]) {
+		assert.ok(!isSafeFileName(name), JSON.stringify(name));
+	}
+});
+
+test('withStagingDir', async () => {
+	const testDir = await mkdtemp(join(tmpdir(), 'fs-utils-test-'));
+	try {
+		const stagingBase = join(testDir, '.staging');
+		const result = await withStagingDir(stagingBase, 'x-', async (stagingDir) => {
+			assert.ok(stagingDir.startsWith(join(stagingBase, 'x-')));
+			await writeFile(join(stagingDir, 'file'), 'data');
+			return 42;
+		});
+		assert.equal(result, 42);
+		assert.deepEqual(await readdir(stagingBase), []);
+
+		await assert.rejects(
+			withStagingDir(stagingBase, 'x-', async (stagingDir) => {
+				await writeFile(join(stagingDir, 'file'), 'data');
+				throw new Error('failed');
+			}),
+			/failed/,
+		);
+		assert.deepEqual(await readdir(stagingBase), []);
+
+		assert.ok(await exists(stagingBase));
+		assert.ok(!(await exists(join(testDir, 'missing'))));
+	} finally {
+		await rm(testDir, { recursive: true });
+	}
+});
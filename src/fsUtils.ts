@@ -0,0 +1,45 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module with filesystem helpers shared by modules installing files on disk.
+ */
+import fs from 'node:fs';
+import * as path from 'node:path';
+
+export async function exists(p: string): Promise<boolean> {
+	return (await fs.promises.stat(p).catch(() => null)) !== null;
+}
+
+/**
+ * Check that the name, e.g. coming from a remote index or request, can be
+ * used directly as a name of a file in a directory without escaping it or
+ * hitting the hidden files and directories, like the staging ones.
+ */
+export function isSafeFileName(name: string): boolean {
+	return name.length > 0 && name.length < 256 && !name.startsWith('.') && !/[/\\\0]/.test(name);
+}
+
+/**
+ * Run the function with a fresh temporary directory inside of `stagingBase`,
+ * removed together with anything left in it once the function finishes.
+ *
+ * Files are prepared in the staging directory and then renamed to their final
+ * location, so they appear there atomically. For the renames to be atomic
+ * the `stagingBase` must be on the same filesystem as the final location, so
+ * it's best kept as a hidden directory inside of it.
+ */
+export async function withStagingDir<T>(
+	stagingBase: string,
+	prefix: string,
+	fn: (stagingDir: string) => Promise<T>,
+): Promise<T> {
+	await fs.promises.mkdir(stagingBase, { recursive: true });
+	const stagingDir = await fs.promises.mkdtemp(path.join(stagingBase, prefix));
+	try {
+		return await fn(stagingDir);
+	} finally {
+		await fs.promises.rm(stagingDir, { recursive: true, force: true });
+	}
+}
@@ -5,18 +5,87 @@
 import type { Environment } from './environment.js';
 import type { AutohostStartRequestData } from 'tachyon-protocol/types';
 import { runEngine, type EngineRunner, type Env as EngineRunnerEnv } from './engineRunner.js';
-import { type Event, EventType } from './engineAutohostInterface.js';
+import { type Event, EventType, serializeMessagePacket } from './engineAutohostInterface.js';
 import { TypedEmitter } from 'tiny-typed-emitter';
 import { TachyonError } from './tachyonTypes.js';
+import type { EngineVersionsManager } from './engineVersions.js';
+import type { ContentManager } from './content.js';
+import { INSTANCES_DIR, type InstancesManager } from './instances.js';
+import type { DemoExporter } from './demoExport.js';
+import {
+	BattleStateError,
+	BattleStateMachine,
+	type BattleState,
+	type BattleStateChange,
+} from './battleState.js';
+import { readProcResourceUsage } from './procfs.js';
+import {
+	ResourceUsageRecorder,
+	type ResourceUsageSample,
+	type ResourceUsageSummary,
+} from './resourceUsage.js';
 import events from 'node:events';
+import * as path from 'node:path';
 
 interface Game {
 	battleId: string;
 	engineRunner: EngineRunner;
 	portOffset: number;
+	// Set once the engine started, until then the battle isn't announced.
 	started: boolean;
+	state: BattleStateMachine;
 	logger: Environment['logger'];
 	killTimer: NodeJS.Timeout | null;
+	warningTimers: NodeJS.Timeout[];
+	maxDurationSeconds: number;
+	resourceUsage: ResourceUsageRecorder;
+	samplingTimer: NodeJS.Timeout | null;
+	releaseEngine: () => void;
+	crashed: boolean;
+	demoPath: string | null;
+	engineVersion: string;
+	exitReason: GameExitInfo['reason'] | null;
+}
+
+/**
+ * Information about the game passed with the `exit` event.
+ */
+export interface GameExitInfo {
+	// Why the game ended, the first applicable reason wins:
+	// - quit: engine reported quitting with SERVER_QUIT.
+	// - killed: game was killed on request.
+	// - max_duration: game was killed after reaching maxGameDurationSeconds.
+	// - idle: game was killed by one of the idle kill policies.
+	// - crash: engine crashed.
+	// - exited: engine exited without any of the above.
+	reason: 'quit' | 'killed' | 'max_duration' | 'idle' | 'crash' | 'exited';
+	// Resolved engine version the game was running on.
+	engineVersion: string;
+	// Absolute path of the demo, if the engine recorded one.
+	demoPath: string | null;
+	// Resource usage of the engine process, null if it wasn't sampled.
+	resourceUsage: ResourceUsageSummary | null;
+}
+
+/**
+ * Error thrown by GamesManager.start when the engine exited before it started,
+ * e.g. when the battle was killed during startup.
+ */
+export class EngineExitedDuringStartupError extends TachyonError<'autohost/start'> {
+	constructor() {
+		super('internal_error', 'engine exited before it started');
+		this.name = 'EngineExitedDuringStartupError';
+	}
+}
+
+/**
+ * Error thrown by GamesManager.start when the engine didn't start in time.
+ */
+export class EngineStartupTimeoutError extends TachyonError<'autohost/start'> {
+	constructor(timeoutSeconds: number) {
+		super('internal_error', `engine didn't start within ${timeoutSeconds} seconds`);
+		this.name = 'EngineStartupTimeoutError';
+	}
 }
 
 interface GamesCapacity {
@@ -27,15 +96,27 @@ interface GamesCapacity {
 /**
  * Events emitted by the GamesManager
  */
-interface Events {
+export interface GamesManagerEvents {
+	// Emitted on every change of the battle lifecycle state, see BattleState.
+	state: (battleId: string, change: BattleStateChange) => void;
+
 	// Emitted when a packet is received from the engine from started game.
 	packet: (battleId: string, ev: Event) => void;
 
 	// Emitted when an error occurs in the engine from started game.
 	error: (battleId: string, err: Error) => void;
 
+	// Emitted when the engine from started game looks unhealthy.
+	warning: (battleId: string, message: string) => void;
+
 	// Emitted when the engine has exited, only if it was started before.
-	exit: (battleId: string) => void;
+	// Listeners writing into the instance directory pass the writes to
+	// holdInstance, the directory is kept at least until they settle.
+	exit: (
+		battleId: string,
+		info: GameExitInfo,
+		holdInstance: (write: Promise<unknown>) => void,
+	) => void;
 
 	// Emitted when server capacity changes.
 	capacity: (capacity: GamesCapacity) => void;
@@ -48,29 +129,67 @@ interface Config {
 	maxBattles: number;
 	hostingIP: string;
 	engineBindIP: string;
+	engineStartupTimeoutSeconds: number;
 	maxGameDurationSeconds: number;
+	maxGameDurationWarningsSeconds: number[];
+	gameDurationOverrideOption: string | null;
+	gameDurationOverrideMinSeconds: number;
+	gameDurationOverrideMaxSeconds: number;
+	resourceSamplingIntervalSeconds: number | null;
 }
 
 interface Mocks {
 	runEngine?: typeof runEngine;
+	readProcResourceUsage?: typeof readProcResourceUsage;
 }
 
 export type Env = Environment<Config, Mocks> & EngineRunnerEnv;
 
+/**
+ * Optional collaborators of the GamesManager.
+ */
+export interface GamesManagerDeps {
+	// When set, engine version aliases are resolved when starting games, and
+	// engine versions used by games are marked as in use for the whole
+	// lifetime of the game.
+	engineVersions?: Pick<EngineVersionsManager, 'acquireEngineVersion' | 'resolveEngineVersion'>;
+
+	// When set, games and maps are fetched before starting games.
+	content?: ContentManager;
+
+	// When set, it's notified about started and finished games to apply the
+	// retention policy of their instance directories.
+	instances?: Pick<InstancesManager, 'battleStarted' | 'battleFinished'>;
+
+	// When set, demos of finished games are exported with it.
+	demoExporter?: DemoExporter;
+}
+
 /**
  * GamesManager is responsible for managing a pool of EngineRunners and assigning
  * them to free ports from the designated range.
  */
-export class GamesManager extends TypedEmitter<Events> implements GamesManager {
+export class GamesManager extends TypedEmitter<GamesManagerEvents> implements GamesManager {
 	private games: Map<string, Game> = new Map();
 	private usedBattleIds: Set<string> = new Set();
 	private usedPortOffset: Set<number> = new Set();
 	private lastPortOffset: number = 0;
 	private logger: Env['logger'];
 	private currCapacity: GamesCapacity;
+	private engineVersions: GamesManagerDeps['engineVersions'];
+	private content: GamesManagerDeps['content'];
+	private instances: GamesManagerDeps['instances'];
+	private demoExporter: GamesManagerDeps['demoExporter'];
 
-	constructor(private env: Env) {
+	constructor(
+		private env: Env,
+		deps: GamesManagerDeps = {},
+	) {
 		super();
+		this.engineVersions = deps.engineVersions;
+		this.content = deps.content;
+		this.instances = deps.instances;
+		this.demoExporter = deps.demoExporter;
 		this.logger = env.logger.child({ class: 'GamesManager' });
 		this.currCapacity = {
 			currentBattles: 0,
@@ -99,11 +218,43 @@ export class GamesManager extends TypedEmitter<Events> implements GamesManager {
 		if (this.games.size >= this.env.config.maxBattles) {
 			throw new TachyonError('invalid_request', 'too many battles running');
 		}
+		const engineVersion = this.engineVersions
+			? this.engineVersions.resolveEngineVersion(req.engineVersion)
+			: req.engineVersion;
+		if (engineVersion === undefined) {
+			throw new TachyonError<'autohost/start'>(
+				'engine_version_not_available',
+				`engine version alias ${req.engineVersion} doesn't point to any available engine`,
+			);
+		}
 		this.usedBattleIds.add(req.battleId);
 
-		const portOffset = this.findFreePortOffset();
+		const logger = this.logger.child({ battleId: req.battleId, engineVersion });
+		if (engineVersion !== req.engineVersion) {
+			logger.info({ engineAlias: req.engineVersion }, 'resolved engine version alias');
+		}
+		// Pin the resolved engine right away, so it can't be removed while the
+		// content is being fetched.
+		const releaseEngine =
+			this.engineVersions?.acquireEngineVersion(engineVersion) ?? (() => {});
+		let portOffset: number;
+		try {
+			await this.content?.ensureContent(req);
+			// Fetching content could take a while, so recheck the capacity.
+			if (this.games.size >= this.env.config.maxBattles) {
+				throw new TachyonError('invalid_request', 'too many battles running');
+			}
+			portOffset = this.findFreePortOffset();
+		} catch (err) {
+			// Let the server retry the battle, e.g. once the content is fixed.
+			this.usedBattleIds.delete(req.battleId);
+			releaseEngine();
+			throw err;
+		}
+		this.instances?.battleStarted(req.battleId);
 		const er = (this.env.mocks?.runEngine ?? runEngine)(this.env, {
-			startRequest: req,
+			startRequest: { ...req, engineVersion },
+			requestedEngineVersion: req.engineVersion,
 			hostIP: this.env.config.engineBindIP,
 			hostPort: this.env.config.engineStartPort + portOffset,
 			autohostPort: this.env.config.engineAutohostStartPort + portOffset,
@@ -113,41 +264,127 @@ export class GamesManager extends TypedEmitter<Events> implements GamesManager {
 			engineRunner: er,
 			portOffset: portOffset,
 			started: false,
-			logger: this.logger.child({ battleId: req.battleId }),
+			state: new BattleStateMachine((change) => {
+				logger.debug(change, 'battle state changed');
+				this.emit('state', req.battleId, change);
+			}),
+			logger,
 			killTimer: null,
+			warningTimers: [],
+			maxDurationSeconds: this.getMaxDurationSeconds(req, logger),
+			resourceUsage: new ResourceUsageRecorder(),
+			samplingTimer: null,
+			releaseEngine,
+			crashed: false,
+			demoPath: null,
+			engineVersion,
+			exitReason: null,
 		};
 		this.games.set(game.battleId, game);
 
 		er.on('error', (err) => {
 			game.logger.error(err, 'battle crashed');
+			game.crashed = true;
+			game.exitReason ??= 'crash';
 			if (game.started) this.emit('error', game.battleId, err);
 		});
 
+		er.on('warning', (message) => {
+			if (game.started) this.emit('warning', game.battleId, message);
+		});
+
 		er.on('exit', () => {
 			game.logger.info('battle exited');
+			this.setState(game, 'exited');
 			if (game.killTimer) {
 				clearTimeout(game.killTimer);
 				game.killTimer = null;
 			}
+			game.warningTimers.forEach(clearTimeout);
+			game.warningTimers = [];
+			if (game.samplingTimer) {
+				clearInterval(game.samplingTimer);
+				game.samplingTimer = null;
+			}
+			const resourceUsage = game.resourceUsage.summary();
+			if (resourceUsage) {
+				game.logger.info({ resourceUsage }, 'battle resource usage');
+			}
 			this.games.delete(game.battleId);
 			this.usedPortOffset.delete(game.portOffset);
+			game.releaseEngine();
+			if (game.demoPath) {
+				// Errors are handled and recorded by the exporter itself.
+				void this.demoExporter?.exportDemo(game.battleId, game.demoPath);
+			}
+			const instanceWrites: Promise<unknown>[] = [];
+			if (game.crashed && this.demoExporter) {
+				const demoExporter = this.demoExporter;
+				const pending = demoExporter.crashLogsPending(game.battleId);
+				instanceWrites.push(pending);
+				pending
+					.then(() => demoExporter.exportCrashLogs(game.battleId))
+					.catch((err) =>
+						game.logger.error(err, 'failed to mark crash logs pending export'),
+					);
+			}
 			if (game.started) {
-				this.emit('exit', game.battleId);
+				this.emit(
+					'exit',
+					game.battleId,
+					{
+						reason: game.exitReason ?? 'exited',
+						engineVersion: game.engineVersion,
+						demoPath: game.demoPath,
+						resourceUsage,
+					},
+					(write) => instanceWrites.push(write),
+				);
 				this.currCapacity.currentBattles -= 1;
 				this.emit('capacity', this.capacity);
 			}
+			// The retention policy can remove the instance directory right away,
+			// so it must wait for the exit listeners writing to it.
+			void Promise.allSettled(instanceWrites).then(() =>
+				this.instances
+					?.battleFinished(game.battleId, game.crashed)
+					.catch((err) => game.logger.error(err, 'failed to record battle outcome')),
+			);
 		});
 
 		er.on('packet', (packet) => {
 			if (packet.type !== EventType.GAME_LUAMSG) {
 				game.logger.trace(packet, 'got packet');
 			}
+			switch (packet.type) {
+				case EventType.SERVER_STARTPLAYING:
+					this.setState(game, 'playing');
+					break;
+				case EventType.SERVER_GAMEOVER:
+					this.setState(game, 'game_over');
+					break;
+				case EventType.SERVER_QUIT:
+					game.exitReason ??= 'quit';
+					this.setState(game, 'quitting');
+					break;
+			}
+			if (packet.type === EventType.SERVER_STARTPLAYING && packet.demoPath) {
+				// The engine reports the demo path relative to its write
+				// directory, the instance directory.
+				game.demoPath = path.resolve(INSTANCES_DIR, game.battleId, packet.demoPath);
+				this.demoExporter
+					?.demoRecording(game.battleId, game.demoPath)
+					.catch((err) => game.logger.error(err, 'failed to mark demo pending export'));
+			}
 			if (game.started) this.emit('packet', game.battleId, packet);
 		});
 
-		await events.once(er, 'start');
+		await this.waitForStart(game);
 		game.started = true;
+		this.setState(game, 'lobby');
 		game.killTimer = this.createKillTimer(game);
+		game.warningTimers = this.createWarningTimers(game);
+		game.samplingTimer = this.createSamplingTimer(game);
 		this.currCapacity.currentBattles += 1;
 		process.nextTick(() => {
 			this.emit('capacity', this.capacity);
@@ -158,25 +395,182 @@ export class GamesManager extends TypedEmitter<Events> implements GamesManager {
 		};
 	}
 
+	/**
+	 * Wait for the engine to start, covering all the startup phases of the
+	 * engine runner. On failure, the battle id can be reused once the engine
+	 * is closed.
+	 *
+	 * @throws {EngineStartupTimeoutError} When engine didn't start in time.
+	 * @throws {EngineExitedDuringStartupError} When engine exited before start.
+	 */
+	private async waitForStart(game: Game): Promise<void> {
+		const er = game.engineRunner;
+		const timeoutSeconds = this.env.config.engineStartupTimeoutSeconds;
+		const exited = new Promise<void>((resolve) => er.once('exit', () => resolve()));
+		const ac = new AbortController();
+		const timer = setTimeout(() => ac.abort(), timeoutSeconds * 1000);
+		try {
+			await Promise.race([
+				events.once(er, 'start', { signal: ac.signal }),
+				exited.then(() => {
+					throw new EngineExitedDuringStartupError();
+				}),
+			]);
+		} catch (err) {
+			let error = err;
+			if (ac.signal.aborted) {
+				game.logger.error(
+					`engine didn't start within ${timeoutSeconds} seconds, closing it`,
+				);
+				error = new EngineStartupTimeoutError(timeoutSeconds);
+			}
+			if (game.state.state !== 'exited') er.close();
+			// Wait for the exit to free the port and instance directory before
+			// allowing the battle to be started again.
+			await exited;
+			this.usedBattleIds.delete(game.battleId);
+			throw error;
+		} finally {
+			clearTimeout(timer);
+			ac.abort();
+		}
+	}
+
 	async sendPacket(battleId: string, packet: Buffer): Promise<void> {
 		const game = this.games.get(battleId);
 		if (!game) throw new TachyonError('invalid_request', `game ${battleId} doesn't exist`);
 		return game.engineRunner.sendPacket(packet);
 	}
 
-	killGame(battleId: string) {
+	/**
+	 * Kill the game.
+	 *
+	 * @param reason Reason reported in the `exit` event, unless the game was
+	 *     already ending for another reason.
+	 */
+	killGame(battleId: string, reason: 'killed' | 'idle' = 'killed') {
 		const game = this.games.get(battleId);
 		if (!game) throw new TachyonError('invalid_request', `game ${battleId} doesn't exist`);
+		game.exitReason ??= reason;
+		this.setState(game, 'quitting');
 		game.engineRunner.close();
 	}
 
+	/**
+	 * Get the resource usage samples of the engine process of the battle.
+	 *
+	 * @returns Samples or undefined if there is no such battle running.
+	 */
+	getResourceUsage(battleId: string): ResourceUsageSample[] | undefined {
+		return this.games.get(battleId)?.resourceUsage.getSamples();
+	}
+
+	/**
+	 * Get the lifecycle state of the battle.
+	 *
+	 * @returns State or undefined if there is no such battle running.
+	 */
+	getBattleState(battleId: string): BattleState | undefined {
+		return this.games.get(battleId)?.state.state;
+	}
+
+	private setState(game: Game, to: BattleState) {
+		try {
+			game.state.transition(to);
+		} catch (err) {
+			if (!(err instanceof BattleStateError)) throw err;
+			// The engine is the one ordering the events, so there is nothing
+			// to do other than to keep the state consistent.
+			game.logger.warn(
+				{ from: err.from, to: err.to },
+				'ignoring illegal battle state transition',
+			);
+		}
+	}
+
+	/**
+	 * Get the max duration of the game, taking into account the override
+	 * from the game options when enabled.
+	 */
+	private getMaxDurationSeconds(
+		req: AutohostStartRequestData,
+		logger: Environment['logger'],
+	): number {
+		const config = this.env.config;
+		const option = config.gameDurationOverrideOption;
+		const value = option ? req.gameOptions?.[option] : undefined;
+		if (value === undefined) {
+			return config.maxGameDurationSeconds;
+		}
+		const seconds = Number(value);
+		if (value.trim() === '' || !Number.isFinite(seconds)) {
+			logger.warn({ option, value }, 'ignoring invalid max game duration override');
+			return config.maxGameDurationSeconds;
+		}
+		const clamped = Math.min(
+			Math.max(seconds, config.gameDurationOverrideMinSeconds),
+			config.gameDurationOverrideMaxSeconds,
+		);
+		if (clamped !== seconds) {
+			logger.warn(
+				{ option, value, maxDurationSeconds: clamped },
+				'max game duration override out of bounds, clamping',
+			);
+		} else {
+			logger.info({ maxDurationSeconds: clamped }, 'overriding max game duration');
+		}
+		return clamped;
+	}
+
+	private createSamplingTimer(game: Game): NodeJS.Timeout | null {
+		const intervalSeconds = this.env.config.resourceSamplingIntervalSeconds;
+		if (intervalSeconds == null) return null;
+		const sample = () => {
+			const pid = game.engineRunner.pid;
+			if (pid === undefined) return;
+			(this.env.mocks?.readProcResourceUsage ?? readProcResourceUsage)(pid)
+				.then((usage) => {
+					game.resourceUsage.addSample(usage);
+					game.logger.debug({ resourceUsage: usage }, 'engine resource usage');
+				})
+				// The process might have just exited, or it's not Linux.
+				.catch((err) => game.logger.debug(err, 'failed to sample engine resource usage'));
+		};
+		sample();
+		const timer = setInterval(sample, intervalSeconds * 1000);
+		timer.unref();
+		return timer;
+	}
+
+	private createWarningTimers(game: Game): NodeJS.Timeout[] {
+		const maxDurationSeconds = game.maxDurationSeconds;
+		return this.env.config.maxGameDurationWarningsSeconds
+			.filter((before) => before > 0 && before < maxDurationSeconds)
+			.map((before) => {
+				const timer = setTimeout(
+					() => {
+						const message = `The game will be terminated in ${formatDuration(before)} due to max game duration.`;
+						game.engineRunner
+							.sendPacket(serializeMessagePacket(message))
+							.catch((err) =>
+								game.logger.warn(err, 'failed to send game duration warning'),
+							);
+					},
+					(maxDurationSeconds - before) * 1000,
+				);
+				timer.unref();
+				return timer;
+			});
+	}
+
 	private createKillTimer(game: Game): NodeJS.Timeout {
-		const maxDurationSeconds = this.env.config.maxGameDurationSeconds;
+		const maxDurationSeconds = game.maxDurationSeconds;
 		const maxDurationMs = maxDurationSeconds * 1000;
 		const timer = setTimeout(() => {
 			game.logger.warn(
 				`max game duration of ${maxDurationSeconds} seconds reached, forcing kill`,
 			);
+			game.exitReason ??= 'max_duration';
 			this.killGame(game.battleId);
 		}, maxDurationMs);
 		timer.unref();
@@ -187,3 +581,12 @@ export class GamesManager extends TypedEmitter<Events> implements GamesManager {
 		return { ...this.currCapacity };
 	}
 }
+
+// Formats duration for messages to players, e.g. "5 minutes" or "30 seconds".
+function formatDuration(seconds: number): string {
+	if (seconds >= 60 && seconds % 60 === 0) {
+		const minutes = seconds / 60;
+		return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+	}
+	return `${seconds} second${seconds === 1 ? '' : 's'}`;
+}
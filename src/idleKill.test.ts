@@ -0,0 +1,110 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { pino } from 'pino';
+import { BattleIdleMonitor, type Env } from './idleKill.js';
+import { BattlePlayerStates } from './playerStates.js';
+
+function setup(t: TestContext, config: Partial<Env['config']>) {
+	t.mock.timers.enable({ apis: ['setTimeout'] });
+	const states = new BattlePlayerStates();
+	states.addPlayer({ userId: 'u1', name: 'user1', playerNumber: 0 }, false);
+	states.addPlayer({ userId: 'u2', name: 'user2', playerNumber: 1 }, false);
+	states.addPlayer({ userId: 'u3', name: 'user3', playerNumber: 2 }, true);
+	const onIdle = t.mock.fn();
+	const env: Env = {
+		logger: pino({ level: 'silent' }),
+		config: {
+			idleKillNoJoinSeconds: null,
+			idleKillAllPlayersLeftSeconds: null,
+			idleKillGameOverSeconds: null,
+			...config,
+		},
+	};
+	const monitor = new BattleIdleMonitor(env, () => states.getStates(), onIdle);
+	const update: BattleIdleMonitor['handleUpdate'] = (u) => {
+		states.handleUpdate(u);
+		monitor.handleUpdate(u);
+	};
+	return { monitor, update, onIdle };
+}
+
+test('kills battle nobody joined', (t) => {
+	const { onIdle } = setup(t, { idleKillNoJoinSeconds: 60 });
+	t.mock.timers.tick(59_999);
+	assert.equal(onIdle.mock.callCount(), 0);
+	t.mock.timers.tick(1);
+	assert.equal(onIdle.mock.callCount(), 1);
+	assert.equal(onIdle.mock.calls[0].arguments[0], 'no_join');
+});
+
+test("doesn't kill battle somebody joined", (t) => {
+	const { update, onIdle } = setup(t, { idleKillNoJoinSeconds: 60 });
+	update({ type: 'player_joined', userId: 'u3', playerNumber: 2 });
+	t.mock.timers.tick(120_000);
+	assert.equal(onIdle.mock.callCount(), 0);
+});
+
+test('kills battle all players left', (t) => {
+	const { update, onIdle } = setup(t, { idleKillAllPlayersLeftSeconds: 30 });
+	update({ type: 'player_joined', userId: 'u1', playerNumber: 0 });
+	update({ type: 'player_joined', userId: 'u2', playerNumber: 1 });
+	update({ type: 'player_joined', userId: 'u3', playerNumber: 2 });
+	update({ type: 'player_left', userId: 'u1', reason: 'left' });
+	t.mock.timers.tick(60_000);
+	assert.equal(onIdle.mock.callCount(), 0);
+
+	// Spectator still connected doesn't keep the battle alive.
+	update({ type: 'player_left', userId: 'u2', reason: 'lost_connection' });
+	t.mock.timers.tick(29_999);
+	assert.equal(onIdle.mock.callCount(), 0);
+	t.mock.timers.tick(1);
+	assert.equal(onIdle.mock.callCount(), 1);
+	assert.equal(onIdle.mock.calls[0].arguments[0], 'all_players_left');
+});
+
+test("doesn't kill battle player came back to", (t) => {
+	const { update, onIdle } = setup(t, { idleKillAllPlayersLeftSeconds: 30 });
+	update({ type: 'player_joined', userId: 'u1', playerNumber: 0 });
+	update({ type: 'player_left', userId: 'u1', reason: 'lost_connection' });
+	t.mock.timers.tick(20_000);
+	// Joining spectator doesn't count.
+	update({ type: 'player_joined', userId: 'u3', playerNumber: 2 });
+	t.mock.timers.tick(5_000);
+	update({ type: 'player_joined', userId: 'u1', playerNumber: 0 });
+	t.mock.timers.tick(60_000);
+	assert.equal(onIdle.mock.callCount(), 0);
+});
+
+test('kills battle engine not quitting after game over', (t) => {
+	const { update, onIdle } = setup(t, { idleKillGameOverSeconds: 10 });
+	update({ type: 'finished', userId: 'u1', winningAllyTeams: [0] });
+	t.mock.timers.tick(5_000);
+	update({ type: 'finished', userId: 'u2', winningAllyTeams: [0] });
+	t.mock.timers.tick(5_000);
+	assert.equal(onIdle.mock.callCount(), 1);
+	assert.equal(onIdle.mock.calls[0].arguments[0], 'game_over');
+});
+
+test('kills only once', (t) => {
+	const { monitor, update, onIdle } = setup(t, {
+		idleKillNoJoinSeconds: 10,
+		idleKillGameOverSeconds: 10,
+	});
+	update({ type: 'finished', userId: 'u1', winningAllyTeams: [0] });
+	t.mock.timers.tick(10_000);
+	assert.equal(onIdle.mock.callCount(), 1);
+	monitor.handleUpdate({ type: 'player_left', userId: 'u1', reason: 'left' });
+	t.mock.timers.tick(10_000);
+	assert.equal(onIdle.mock.callCount(), 1);
+});
+
+test("doesn't kill after close", (t) => {
+	const { monitor, onIdle } = setup(t, { idleKillNoJoinSeconds: 10 });
+	monitor.close();
+	t.mock.timers.tick(10_000);
+	assert.equal(onIdle.mock.callCount(), 0);
+});
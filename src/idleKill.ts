@@ -0,0 +1,122 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module with the policies automatically killing idle and abandoned battles.
+ */
+import type { AutohostUpdateEventData } from 'tachyon-protocol/types';
+import type { Environment } from './environment.js';
+import type { PlayerState } from './playerStates.js';
+
+interface Config {
+	idleKillNoJoinSeconds: number | null;
+	idleKillAllPlayersLeftSeconds: number | null;
+	idleKillGameOverSeconds: number | null;
+}
+
+export type Env = Environment<Config>;
+
+/**
+ * Why the idle battle is being killed:
+ *
+ * - no_join: nobody joined the battle in time after it started.
+ * - all_players_left: all non-spectator players left and didn't come back.
+ * - game_over: engine didn't quit in time after the game was over.
+ */
+export type IdleKillReason = 'no_join' | 'all_players_left' | 'game_over';
+
+/**
+ * BattleIdleMonitor applies the idle kill policies to a single battle based
+ * on the tachyon updates generated for it.
+ *
+ * Every policy is disabled when its timeout is not configured. The callback
+ * is called at most once, and never after close().
+ */
+export class BattleIdleMonitor {
+	private noJoinTimer: NodeJS.Timeout | null = null;
+	private playersLeftTimer: NodeJS.Timeout | null = null;
+	private gameOverTimer: NodeJS.Timeout | null = null;
+	private killed = false;
+
+	/**
+	 * @param getPlayers Returns the current states of players in the battle,
+	 *     already updated with the update passed to handleUpdate.
+	 * @param onIdle Called with the reason when the battle should be killed.
+	 */
+	constructor(
+		private env: Env,
+		private getPlayers: () => PlayerState[],
+		private onIdle: (reason: IdleKillReason, message: string) => void,
+	) {
+		const noJoinSeconds = env.config.idleKillNoJoinSeconds;
+		if (noJoinSeconds != null) {
+			this.noJoinTimer = this.createTimer(
+				noJoinSeconds,
+				'no_join',
+				`nobody joined within ${noJoinSeconds} seconds after start`,
+			);
+		}
+	}
+
+	handleUpdate(update: AutohostUpdateEventData['update']) {
+		switch (update.type) {
+			case 'player_joined':
+				this.noJoinTimer = clear(this.noJoinTimer);
+				this.checkPlayersLeft();
+				break;
+			case 'player_left':
+				this.checkPlayersLeft();
+				break;
+			case 'finished': {
+				// Reported by every player, only the first one counts.
+				const seconds = this.env.config.idleKillGameOverSeconds;
+				if (seconds == null || this.gameOverTimer) break;
+				this.gameOverTimer = this.createTimer(
+					seconds,
+					'game_over',
+					`engine didn't quit within ${seconds} seconds after game over`,
+				);
+				break;
+			}
+		}
+	}
+
+	close() {
+		this.killed = true;
+		this.noJoinTimer = clear(this.noJoinTimer);
+		this.playersLeftTimer = clear(this.playersLeftTimer);
+		this.gameOverTimer = clear(this.gameOverTimer);
+	}
+
+	private checkPlayersLeft() {
+		const seconds = this.env.config.idleKillAllPlayersLeftSeconds;
+		if (seconds == null) return;
+		const players = this.getPlayers().filter((p) => !p.spectator);
+		const abandoned = players.length > 0 && players.every((p) => !p.connected);
+		if (!abandoned) {
+			this.playersLeftTimer = clear(this.playersLeftTimer);
+		} else if (!this.playersLeftTimer && players.some((p) => p.sessions.length > 0)) {
+			this.playersLeftTimer = this.createTimer(
+				seconds,
+				'all_players_left',
+				`all players left and didn't come back within ${seconds} seconds`,
+			);
+		}
+	}
+
+	private createTimer(seconds: number, reason: IdleKillReason, message: string) {
+		const timer = setTimeout(() => {
+			if (this.killed) return;
+			this.close();
+			this.onIdle(reason, message);
+		}, seconds * 1000);
+		timer.unref();
+		return timer;
+	}
+}
+
+function clear(timer: NodeJS.Timeout | null): null {
+	if (timer) clearTimeout(timer);
+	return null;
+}
@@ -0,0 +1,138 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { suite, test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { pino } from 'pino';
+import { once } from 'node:events';
+import { mkdtemp, mkdir, rm, readdir, writeFile, utimes } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { chdir } from 'node:process';
+import { InstancesManagerImpl, type Env } from './instances.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+suite('InstancesManagerImpl', () => {
+	const origCwd = process.cwd();
+	let testDir: string;
+	let im: InstancesManagerImpl | null = null;
+
+	beforeEach(async () => {
+		testDir = await mkdtemp(join(tmpdir(), 'instances-test-'));
+		chdir(testDir);
+		await mkdir('instances');
+	});
+
+	afterEach(async () => {
+		im?.close();
+		im = null;
+		chdir(origCwd);
+		await rm(testDir, { recursive: true });
+	});
+
+	function getEnv(config: Partial<Env['config']>): Env {
+		return {
+			logger: pino({ level: 'silent' }),
+			config: {
+				instanceRetentionPolicy: 'keep_days',
+				instanceRetentionDays: 7,
+				instanceRetentionCount: 100,
+				instancePendingExportMaxDays: 14,
+				instanceSweepIntervalSeconds: 3600,
+				...config,
+			},
+		};
+	}
+
+	// Creates instance directory of battle that finished given days ago.
+	async function createInstance(battleId: string, daysAgo: number, crashed: boolean) {
+		await mkdir(join('instances', battleId));
+		const state = { finishedAt: Date.now() - daysAgo * DAY, crashed };
+		await writeFile(join('instances', battleId, 'state.json'), JSON.stringify(state));
+	}
+
+	async function startManager(config: Partial<Env['config']>): Promise<InstancesManagerImpl> {
+		im = new InstancesManagerImpl(getEnv(config));
+		await once(im, 'sweep');
+		return im;
+	}
+
+	test('keep_days removes old instances at startup', async () => {
+		await createInstance('a', 10, false);
+		await createInstance('b', 1, false);
+		await createInstance('c', 8, true);
+		await startManager({ instanceRetentionPolicy: 'keep_days' });
+		assert.deepEqual(await readdir('instances'), ['b']);
+	});
+
+	test('keep_last keeps most recent instances', async () => {
+		await createInstance('a', 3, false);
+		await createInstance('b', 1, false);
+		await createInstance('c', 2, true);
+		await startManager({ instanceRetentionPolicy: 'keep_last', instanceRetentionCount: 2 });
+		assert.deepEqual((await readdir('instances')).sort(), ['b', 'c']);
+	});
+
+	test('keep_crashed keeps only crashed instances', async () => {
+		await createInstance('a', 1, false);
+		await createInstance('b', 1, true);
+		await createInstance('c', 10, true);
+		// Without recorded outcome, it's treated as crashed.
+		await mkdir(join('instances', 'd'));
+		const mtime = new Date(Date.now() - 10 * DAY);
+		await utimes(join('instances', 'd'), mtime, mtime);
+		await mkdir(join('instances', 'e'));
+		await startManager({ instanceRetentionPolicy: 'keep_crashed' });
+		assert.deepEqual((await readdir('instances')).sort(), ['b', 'e']);
+	});
+
+	test('delete removes instance when battle finishes', async () => {
+		const im = await startManager({ instanceRetentionPolicy: 'delete' });
+		im.battleStarted('a');
+		await mkdir(join('instances', 'a'));
+		im.battleStarted('b');
+		await mkdir(join('instances', 'b'));
+		im.battleStarted('c');
+		await mkdir(join('instances', 'c'));
+
+		await im.battleFinished('a', false);
+		await im.battleFinished('c', true);
+		await once(im, 'sweep');
+		assert.deepEqual(await readdir('instances'), ['b']);
+	});
+
+	test('keeps instances with artifacts pending export', async () => {
+		const im = await startManager({ instanceRetentionPolicy: 'delete' });
+		im.battleStarted('a');
+		await mkdir(join('instances', 'a', 'demos'), { recursive: true });
+		await im.markPendingExport('a', 'demos/game.sdfz');
+		await im.markPendingExport('a', 'infolog.txt');
+		await im.battleFinished('a', true);
+		await once(im, 'sweep');
+		assert.deepEqual(await readdir('instances'), ['a']);
+
+		await im.markExported('a', 'demos/game.sdfz');
+		await once(im, 'sweep');
+		assert.deepEqual(await readdir('instances'), ['a']);
+
+		await im.markExported('a', 'infolog.txt');
+		await once(im, 'sweep');
+		assert.deepEqual(await readdir('instances'), []);
+	});
+
+	test('gives up on artifacts pending export for too long', async () => {
+		await createInstance('a', 20, false);
+		await createInstance('b', 10, false);
+		for (const battleId of ['a', 'b']) {
+			await mkdir(join('instances', battleId, '.pending-exports'));
+			await writeFile(join('instances', battleId, '.pending-exports', 'game.sdfz'), '');
+		}
+		const mtime = new Date(Date.now() - 20 * DAY);
+		await utimes(join('instances', 'a', '.pending-exports', 'game.sdfz'), mtime, mtime);
+		const im = await startManager({ instanceRetentionPolicy: 'delete' });
+		assert.deepEqual(await readdir('instances'), ['b']);
+		assert.deepEqual(await im.pendingExports(), [{ battleId: 'b', artifact: 'game.sdfz' }]);
+	});
+});
@@ -0,0 +1,291 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module responsible for the retention of battle instance directories.
+ */
+import fs from 'node:fs';
+import * as path from 'node:path';
+import { TypedEmitter } from 'tiny-typed-emitter';
+import { Environment } from './environment.js';
+
+export type InstanceRetentionPolicy = 'delete' | 'keep_days' | 'keep_last' | 'keep_crashed';
+
+interface Config {
+	instanceRetentionPolicy: InstanceRetentionPolicy;
+	instanceRetentionDays: number;
+	instanceRetentionCount: number;
+	instancePendingExportMaxDays: number;
+	instanceSweepIntervalSeconds: number;
+}
+
+export type Env = Environment<Config>;
+
+export const INSTANCES_DIR = 'instances';
+
+// File in the instance directory recording the outcome of the battle.
+const STATE_FILE = 'state.json';
+
+// Directory in the instance directory with a marker file for every artifact
+// that must be exported before the instance directory can be removed.
+const PENDING_EXPORTS_DIR = '.pending-exports';
+
+interface InstanceState {
+	finishedAt: number;
+	crashed: boolean;
+}
+
+export interface InstancesManagerEvents {
+	// Emitted after every sweep of instance directories finished.
+	sweep: () => void;
+}
+
+export interface InstancesManager {
+	/**
+	 * Mark the battle as running, its instance directory is never removed.
+	 */
+	battleStarted(battleId: string): void;
+
+	/**
+	 * Record the outcome of the battle and apply the retention policy.
+	 */
+	battleFinished(battleId: string, crashed: boolean): Promise<void>;
+
+	/**
+	 * Flag the artifact in the instance directory as important, the instance
+	 * directory is kept at least until `markExported` is called for it.
+	 *
+	 * @param artifact Path of the artifact relative to the instance directory.
+	 */
+	markPendingExport(battleId: string, artifact: string): Promise<void>;
+
+	/**
+	 * Unflag the artifact flagged with `markPendingExport`.
+	 */
+	markExported(battleId: string, artifact: string): Promise<void>;
+
+	/**
+	 * List artifacts flagged with `markPendingExport` of battles that are not
+	 * running, e.g. to retry their export after restart.
+	 */
+	pendingExports(): Promise<{ battleId: string; artifact: string }[]>;
+	close(): void;
+}
+
+/**
+ * InstancesManagerImpl removes instance directories of finished battles
+ * according to the `instanceRetentionPolicy`:
+ *
+ * - delete: removed right after the battle finished.
+ * - keep_days: removed `instanceRetentionDays` after the battle finished.
+ * - keep_last: only the `instanceRetentionCount` most recently finished are
+ *   kept.
+ * - keep_crashed: removed right after the battle finished, unless the engine
+ *   crashed, then they are kept for `instanceRetentionDays`.
+ *
+ * Directories with artifacts pending export are kept, unless the battle
+ * finished more than `instancePendingExportMaxDays` ago, so failing exports
+ * don't keep them forever. The directories are swept at startup, periodically, and whenever a battle finishes or an
+ * artifact is exported. Directories left behind without the recorded outcome,
+ * e.g. when the autohost was killed, are treated as of crashed battles that
+ * finished at the time of their last modification.
+ */
+export class InstancesManagerImpl
+	extends TypedEmitter<InstancesManagerEvents>
+	implements InstancesManager
+{
+	private logger: Env['logger'];
+	private running: Set<string> = new Set();
+	private sweepTimer: NodeJS.Timeout;
+	private sweepRunning = false;
+	private sweepRequested = false;
+
+	constructor(private env: Env) {
+		super();
+		this.logger = env.logger.child({ class: 'InstancesManager' });
+		this.sweepTimer = setInterval(
+			() => this.scheduleSweep(),
+			env.config.instanceSweepIntervalSeconds * 1000,
+		);
+		this.sweepTimer.unref();
+		this.scheduleSweep();
+	}
+
+	battleStarted(battleId: string) {
+		this.running.add(battleId);
+	}
+
+	async battleFinished(battleId: string, crashed: boolean): Promise<void> {
+		const state: InstanceState = { finishedAt: Date.now(), crashed };
+		try {
+			await fs.promises.writeFile(
+				path.join(INSTANCES_DIR, battleId, STATE_FILE),
+				JSON.stringify(state),
+			);
+		} catch (err) {
+			// The instance directory might have not been even created.
+			if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+				throw err;
+			}
+		} finally {
+			this.running.delete(battleId);
+		}
+		this.scheduleSweep();
+	}
+
+	async markPendingExport(battleId: string, artifact: string): Promise<void> {
+		const markersDir = path.join(INSTANCES_DIR, battleId, PENDING_EXPORTS_DIR);
+		await fs.promises.mkdir(markersDir, { recursive: true });
+		await fs.promises.writeFile(path.join(markersDir, encodeURIComponent(artifact)), '');
+	}
+
+	async markExported(battleId: string, artifact: string): Promise<void> {
+		const markersDir = path.join(INSTANCES_DIR, battleId, PENDING_EXPORTS_DIR);
+		await fs.promises.rm(path.join(markersDir, encodeURIComponent(artifact)), { force: true });
+		this.scheduleSweep();
+	}
+
+	async pendingExports(): Promise<{ battleId: string; artifact: string }[]> {
+		const battleIds = await fs.promises.readdir(INSTANCES_DIR).catch(() => []);
+		const pending = [];
+		for (const battleId of battleIds) {
+			if (this.running.has(battleId)) continue;
+			for (const { artifact } of await this.readPendingExports(battleId)) {
+				pending.push({ battleId, artifact });
+			}
+		}
+		return pending;
+	}
+
+	close() {
+		clearInterval(this.sweepTimer);
+	}
+
+	/**
+	 * Schedule sweep of instance directories.
+	 *
+	 * Only one sweep runs at a time, and requests made while it's running
+	 * are coalesced into a single following run.
+	 */
+	private scheduleSweep() {
+		if (this.sweepRunning) {
+			this.sweepRequested = true;
+			return;
+		}
+		this.sweepRunning = true;
+		this.sweepRequested = false;
+		this.sweep()
+			.catch((err) => this.logger.error(err, 'instance directories sweep failed'))
+			.finally(() => {
+				this.sweepRunning = false;
+				if (this.sweepRequested) {
+					this.scheduleSweep();
+				} else {
+					this.emit('sweep');
+				}
+			});
+	}
+
+	private async sweep(): Promise<void> {
+		const {
+			instanceRetentionPolicy,
+			instanceRetentionDays,
+			instanceRetentionCount,
+			instancePendingExportMaxDays,
+		} = this.env.config;
+
+		let battleIds: string[];
+		try {
+			battleIds = await fs.promises.readdir(INSTANCES_DIR);
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+				return;
+			}
+			throw err;
+		}
+
+		const instances: (InstanceState & { battleId: string })[] = [];
+		for (const battleId of battleIds) {
+			if (this.running.has(battleId)) {
+				continue;
+			}
+			const state = await this.readState(battleId);
+			if (state) {
+				instances.push({ battleId, ...state });
+			}
+		}
+		// Most recently finished first.
+		instances.sort((a, b) => b.finishedAt - a.finishedAt);
+
+		const maxAge = instanceRetentionDays * 24 * 60 * 60 * 1000;
+		const maxPendingExportAge = instancePendingExportMaxDays * 24 * 60 * 60 * 1000;
+		const now = Date.now();
+		for (let i = 0; i < instances.length; ++i) {
+			const { battleId, finishedAt, crashed } = instances[i];
+			let keep: boolean;
+			switch (instanceRetentionPolicy) {
+				case 'delete':
+					keep = false;
+					break;
+				case 'keep_days':
+					keep = now - finishedAt < maxAge;
+					break;
+				case 'keep_last':
+					keep = i < instanceRetentionCount;
+					break;
+				case 'keep_crashed':
+					keep = crashed && now - finishedAt < maxAge;
+					break;
+			}
+			if (keep) {
+				continue;
+			}
+			const dir = path.join(INSTANCES_DIR, battleId);
+			const pending = await this.readPendingExports(battleId);
+			const exportGivenUp = pending.every(
+				({ markedAt }) => now - Math.max(markedAt, finishedAt) >= maxPendingExportAge,
+			);
+			// The battle could have been started again while we were awaiting.
+			if (!exportGivenUp || this.running.has(battleId)) {
+				continue;
+			}
+			if (pending.length > 0) {
+				this.logger.error(
+					{ battleId, artifacts: pending.map(({ artifact }) => artifact) },
+					'giving up on exporting artifacts pending for too long',
+				);
+			}
+			this.logger.info({ battleId }, 'removing instance directory');
+			await fs.promises.rm(dir, { recursive: true, force: true });
+		}
+	}
+
+	private async readPendingExports(
+		battleId: string,
+	): Promise<{ artifact: string; markedAt: number }[]> {
+		const markersDir = path.join(INSTANCES_DIR, battleId, PENDING_EXPORTS_DIR);
+		const markers = await fs.promises.readdir(markersDir).catch(() => []);
+		const pending = [];
+		for (const marker of markers) {
+			const stat = await fs.promises.lstat(path.join(markersDir, marker)).catch(() => null);
+			if (stat) {
+				pending.push({ artifact: decodeURIComponent(marker), markedAt: stat.mtimeMs });
+			}
+		}
+		return pending;
+	}
+
+	private async readState(battleId: string): Promise<InstanceState | null> {
+		const dir = path.join(INSTANCES_DIR, battleId);
+		try {
+			return JSON.parse(await fs.promises.readFile(path.join(dir, STATE_FILE), 'utf-8'));
+		} catch {
+			const stat = await fs.promises.lstat(dir).catch(() => null);
+			if (!stat?.isDirectory()) {
+				return null;
+			}
+			return { finishedAt: stat.mtimeMs, crashed: true };
+		}
+	}
+}
@@ -0,0 +1,139 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pino } from 'pino';
+import { LocalApi, type Env } from './localApi.js';
+import type { TeamStatsSeries } from './teamStats.js';
+
+function getEnv(localApiPort: number | null): Env {
+	return {
+		logger: pino({ level: 'silent' }),
+		config: { localApiHost: '127.0.0.1', localApiPort },
+	};
+}
+
+test('disabled without port', async () => {
+	const api = new LocalApi(
+		getEnv(null),
+		{ getSeries: () => undefined },
+		{ getPlayerStates: () => undefined },
+		{ getResourceUsage: () => undefined },
+	);
+	await api.listen();
+	assert.equal(api.port, undefined);
+});
+
+test('serves team statistics', async () => {
+	const series = {
+		0: [{ frame: 900, metalProduced: 10 }],
+	} as unknown as TeamStatsSeries;
+	const api = new LocalApi(
+		getEnv(0),
+		{ getSeries: (battleId) => (battleId === 'battle 1' ? series : undefined) },
+		{ getPlayerStates: () => undefined },
+		{ getResourceUsage: () => undefined },
+	);
+	await api.listen();
+	try {
+		const base = `http://127.0.0.1:${api.port}`;
+
+		const json = await fetch(`${base}/battles/battle%201/teamstats`);
+		assert.equal(json.status, 200);
+		assert.deepEqual(await json.json(), series);
+
+		const csv = await fetch(`${base}/battles/battle%201/teamstats?format=csv`);
+		assert.equal(csv.status, 200);
+		assert.equal(csv.headers.get('content-type'), 'text/csv');
+		assert.match(await csv.text(), /^team,frame,/);
+
+		const missing = await fetch(`${base}/battles/battle2/teamstats`);
+		assert.equal(missing.status, 404);
+		await missing.body?.cancel();
+
+		const other = await fetch(`${base}/other`);
+		assert.equal(other.status, 404);
+		await other.body?.cancel();
+	} finally {
+		api.close();
+	}
+});
+
+test('serves player states', async () => {
+	const getPlayerStates = mock.fn((battleId: string, _connectedAt?: Date) =>
+		battleId === 'battle1' ? [] : undefined,
+	);
+	const api = new LocalApi(
+		getEnv(0),
+		{ getSeries: () => undefined },
+		{ getPlayerStates },
+		{ getResourceUsage: () => undefined },
+	);
+	await api.listen();
+	try {
+		const base = `http://127.0.0.1:${api.port}`;
+
+		const all = await fetch(`${base}/battles/battle1/players`);
+		assert.equal(all.status, 200);
+		assert.deepEqual(await all.json(), []);
+		assert.equal(getPlayerStates.mock.calls[0].arguments[1], undefined);
+
+		const at = await fetch(`${base}/battles/battle1/players?connectedAt=2025-01-01T10:00:00Z`);
+		assert.equal(at.status, 200);
+		await at.body?.cancel();
+		assert.deepEqual(
+			getPlayerStates.mock.calls[1].arguments[1],
+			new Date('2025-01-01T10:00:00Z'),
+		);
+
+		const invalid = await fetch(`${base}/battles/battle1/players?connectedAt=yesterday`);
+		assert.equal(invalid.status, 400);
+		await invalid.body?.cancel();
+
+		const missing = await fetch(`${base}/battles/battle2/players`);
+		assert.equal(missing.status, 404);
+		await missing.body?.cancel();
+
+		const malformed = await fetch(`${base}/battles/%E0/players`);
+		assert.equal(malformed.status, 400);
+		assert.equal(await malformed.text(), 'invalid battle id\n');
+	} finally {
+		api.close();
+	}
+});
+
+test('serves resource usage', async () => {
+	const samples = [
+		{
+			time: '2025-01-01T10:00:00.000Z',
+			cpuSeconds: 1.5,
+			cpuPercent: null,
+			rssBytes: 1024,
+			threads: 4,
+			ioReadBytes: 0,
+			ioWriteBytes: 100,
+		},
+	];
+	const api = new LocalApi(
+		getEnv(0),
+		{ getSeries: () => undefined },
+		{ getPlayerStates: () => undefined },
+		{ getResourceUsage: (battleId) => (battleId === 'battle1' ? samples : undefined) },
+	);
+	await api.listen();
+	try {
+		const base = `http://127.0.0.1:${api.port}`;
+
+		const found = await fetch(`${base}/battles/battle1/resources`);
+		assert.equal(found.status, 200);
+		assert.deepEqual(await found.json(), samples);
+
+		const missing = await fetch(`${base}/battles/battle2/resources`);
+		assert.equal(missing.status, 404);
+		await missing.body?.cancel();
+	} finally {
+		api.close();
+	}
+});
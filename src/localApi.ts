@@ -0,0 +1,137 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module providing the local HTTP API for querying running battles.
+ */
+import http from 'node:http';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { Environment } from './environment.js';
+import { teamStatsToCSV, type TeamStatsCollector } from './teamStats.js';
+import type { Autohost } from './autohost.js';
+import type { GamesManager } from './games.js';
+
+interface Config {
+	localApiHost: string;
+	localApiPort: number | null;
+}
+
+export type Env = Environment<Config>;
+
+/**
+ * LocalApi serves read-only information about running battles over HTTP on
+ * `localApiHost`:`localApiPort`. It's meant for tools running next to the
+ * autohost and has no authentication, so it shouldn't be exposed publicly.
+ *
+ * Endpoints:
+ *
+ * - `GET /battles/<battleId>/teamstats`: team statistics collected so far as
+ *   JSON, or as CSV with `?format=csv`.
+ * - `GET /battles/<battleId>/players`: state of players, only those connected
+ *   at the given time with `?connectedAt=<ISO 8601 timestamp>`.
+ * - `GET /battles/<battleId>/resources`: resource usage samples of the engine
+ *   process.
+ */
+export class LocalApi {
+	private logger: Env['logger'];
+	private server: http.Server;
+
+	constructor(
+		private env: Env,
+		private teamStats: Pick<TeamStatsCollector, 'getSeries'>,
+		private players: Pick<Autohost, 'getPlayerStates'>,
+		private resources: Pick<GamesManager, 'getResourceUsage'>,
+	) {
+		this.logger = env.logger.child({ class: 'LocalApi' });
+		this.server = http.createServer((req, res) => this.handle(req, res));
+	}
+
+	/**
+	 * Start listening, does nothing if `localApiPort` is not set.
+	 */
+	async listen(): Promise<void> {
+		const { localApiHost, localApiPort } = this.env.config;
+		if (localApiPort === null || localApiPort === undefined) return;
+		this.server.listen(localApiPort, localApiHost);
+		await once(this.server, 'listening');
+		this.logger.info({ address: this.server.address() }, 'local API listening');
+	}
+
+	/**
+	 * The port the API listens on, useful when `localApiPort` is 0.
+	 */
+	get port(): number | undefined {
+		return (this.server.address() as AddressInfo | null)?.port;
+	}
+
+	close(): void {
+		this.server.close();
+	}
+
+	private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+		const url = new URL(req.url ?? '/', 'http://localhost');
+		const match = url.pathname.match(/^\/battles\/([^/]+)\/(teamstats|players|resources)$/);
+		if (!match) {
+			return this.reply(res, 404, 'text/plain', 'not found\n');
+		}
+		if (req.method !== 'GET') {
+			return this.reply(res, 405, 'text/plain', 'method not allowed\n');
+		}
+		let battleId: string;
+		try {
+			battleId = decodeURIComponent(match[1]);
+		} catch {
+			// Throwing here would crash the whole process, not just the request.
+			return this.reply(res, 400, 'text/plain', 'invalid battle id\n');
+		}
+		if (match[2] === 'teamstats') {
+			this.handleTeamStats(res, battleId, url.searchParams);
+		} else if (match[2] === 'players') {
+			this.handlePlayers(res, battleId, url.searchParams);
+		} else {
+			this.handleResources(res, battleId);
+		}
+	}
+
+	private handleTeamStats(res: http.ServerResponse, battleId: string, params: URLSearchParams) {
+		const series = this.teamStats.getSeries(battleId);
+		if (!series) {
+			return this.reply(res, 404, 'text/plain', 'no team statistics for battle\n');
+		}
+		if (params.get('format') === 'csv') {
+			this.reply(res, 200, 'text/csv', teamStatsToCSV(series));
+		} else {
+			this.reply(res, 200, 'application/json', JSON.stringify(series));
+		}
+	}
+
+	private handlePlayers(res: http.ServerResponse, battleId: string, params: URLSearchParams) {
+		let connectedAt: Date | undefined;
+		if (params.has('connectedAt')) {
+			connectedAt = new Date(params.get('connectedAt')!);
+			if (isNaN(connectedAt.getTime())) {
+				return this.reply(res, 400, 'text/plain', 'invalid connectedAt\n');
+			}
+		}
+		const states = this.players.getPlayerStates(battleId, connectedAt);
+		if (!states) {
+			return this.reply(res, 404, 'text/plain', 'battle not found\n');
+		}
+		this.reply(res, 200, 'application/json', JSON.stringify(states));
+	}
+
+	private handleResources(res: http.ServerResponse, battleId: string) {
+		const samples = this.resources.getResourceUsage(battleId);
+		if (!samples) {
+			return this.reply(res, 404, 'text/plain', 'battle not found\n');
+		}
+		this.reply(res, 200, 'application/json', JSON.stringify(samples));
+	}
+
+	private reply(res: http.ServerResponse, status: number, contentType: string, body: string) {
+		res.writeHead(status, { 'content-type': contentType });
+		res.end(body);
+	}
+}
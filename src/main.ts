@@ -4,12 +4,19 @@
 
 import { setTimeout } from 'node:timers/promises';
 import { once } from 'node:events';
+import * as path from 'node:path';
 import { GamesManager } from './games.js';
 import { EngineVersionsManagerImpl } from './engineVersions.js';
+import { ContentManagerImpl } from './content.js';
+import { InstancesManagerImpl } from './instances.js';
+import { DemoExporterImpl } from './demoExport.js';
+import { TeamStatsCollector } from './teamStats.js';
+import { LocalApi } from './localApi.js';
 import { Autohost } from './autohost.js';
 import { callTachyonAutohost, createTachyonEvent, TachyonServer } from './tachyonTypes.js';
 import { TachyonClient, TachyonClientOpts } from './tachyonClient.js';
 import { loadConfig } from './config.js';
+import { checkEngineSandbox } from './engineSandbox.js';
 import { pino } from 'pino';
 
 async function main(argv: string[]) {
@@ -21,13 +28,37 @@ async function main(argv: string[]) {
 	const logger = pino();
 	const env = { logger, config };
 
-	const manager = new GamesManager(env);
+	// The config file holds the auth secret, so engines must never see it.
+	config.engineSandboxHiddenPaths = [path.resolve(argv[2]), ...config.engineSandboxHiddenPaths];
+	try {
+		await checkEngineSandbox(env);
+	} catch (err) {
+		logger.fatal(err, 'engine sandbox is misconfigured, exiting');
+		process.exit(1);
+	}
+
 	const engineVersionMgr = new EngineVersionsManagerImpl(env);
 	engineVersionMgr.on('error', (err) => {
 		logger.fatal(err, 'failed to initialize EngineVersionsManager, exiting');
 		process.exit(1);
 	});
+	const instancesMgr = new InstancesManagerImpl(env);
+	const demoExporter = new DemoExporterImpl(env, instancesMgr);
+	void demoExporter.resumePendingExports();
+	const manager = new GamesManager(env, {
+		engineVersions: engineVersionMgr,
+		content: new ContentManagerImpl(env),
+		instances: instancesMgr,
+		demoExporter,
+	});
 	const autohost = new Autohost(env, manager, engineVersionMgr);
+	const localApi = new LocalApi(env, new TeamStatsCollector(env, manager), autohost, manager);
+	try {
+		await localApi.listen();
+	} catch (err) {
+		logger.fatal(err, 'failed to start local API, exiting');
+		process.exit(1);
+	}
 
 	const clientOpts: TachyonClientOpts = {
 		hostname: config.tachyonServer,
@@ -0,0 +1,110 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReadyState } from './engineAutohostInterface.js';
+import { BattlePlayerStates } from './playerStates.js';
+
+function createStates(): BattlePlayerStates {
+	const states = new BattlePlayerStates();
+	states.addPlayer({ userId: 'u2', name: 'user2', playerNumber: 1 }, false);
+	states.addPlayer({ userId: 'u1', name: 'user1', playerNumber: 0 }, false);
+	states.addPlayer({ userId: 'u3', name: 'user3', playerNumber: 2 }, true);
+	return states;
+}
+
+test('tracks player lifecycle', (t) => {
+	t.mock.timers.enable({ apis: ['Date'] });
+	const states = createStates();
+	assert.deepEqual(
+		states.getStates().map((s) => [s.userId, s.spectator, s.connected, s.ready]),
+		[
+			['u1', false, false, null],
+			['u2', false, false, null],
+			['u3', true, false, null],
+		],
+	);
+
+	t.mock.timers.setTime(1000);
+	states.handleUpdate({ type: 'player_joined', userId: 'u1', playerNumber: 0 });
+	states.playerReady(0, ReadyState.READY);
+	t.mock.timers.setTime(2000);
+	states.handleUpdate({ type: 'player_left', userId: 'u1', reason: 'lost_connection' });
+	t.mock.timers.setTime(3000);
+	states.handleUpdate({ type: 'player_joined', userId: 'u1', playerNumber: 0 });
+	t.mock.timers.setTime(4000);
+	states.handleUpdate({ type: 'player_defeated', userId: 'u1' });
+	states.handleUpdate({ type: 'player_left', userId: 'u1', reason: 'left' });
+	states.setSpectator('u2');
+
+	const [u1, u2] = states.getStates();
+	assert.deepEqual(u1, {
+		userId: 'u1',
+		name: 'user1',
+		playerNumber: 0,
+		spectator: false,
+		connected: false,
+		ready: 'ready',
+		defeatedAt: new Date(4000).toISOString(),
+		sessions: [
+			{
+				joinedAt: new Date(1000).toISOString(),
+				leftAt: new Date(2000).toISOString(),
+				leaveReason: 'lost_connection',
+			},
+			{
+				joinedAt: new Date(3000).toISOString(),
+				leftAt: new Date(4000).toISOString(),
+				leaveReason: 'left',
+			},
+		],
+		reconnects: 1,
+	});
+	assert.equal(u2.spectator, true);
+});
+
+test('closes unfinished session on rejoin', (t) => {
+	t.mock.timers.enable({ apis: ['Date'] });
+	const states = createStates();
+	t.mock.timers.setTime(1000);
+	states.handleUpdate({ type: 'player_joined', userId: 'u1', playerNumber: 0 });
+	t.mock.timers.setTime(2000);
+	states.handleUpdate({ type: 'player_joined', userId: 'u1', playerNumber: 0 });
+	const [u1] = states.getStates();
+	assert.equal(u1.connected, true);
+	assert.equal(u1.reconnects, 1);
+	assert.deepEqual(u1.sessions[0], {
+		joinedAt: new Date(1000).toISOString(),
+		leftAt: new Date(2000).toISOString(),
+		leaveReason: null,
+	});
+});
+
+test('filters players connected at given time', (t) => {
+	t.mock.timers.enable({ apis: ['Date'] });
+	const states = createStates();
+	t.mock.timers.setTime(1000);
+	states.handleUpdate({ type: 'player_joined', userId: 'u1', playerNumber: 0 });
+	states.handleUpdate({ type: 'player_joined', userId: 'u2', playerNumber: 1 });
+	t.mock.timers.setTime(2000);
+	states.handleUpdate({ type: 'player_left', userId: 'u2', reason: 'kicked' });
+
+	const connectedAt = (ms: number) => states.getStates(new Date(ms)).map((s) => s.userId);
+	assert.deepEqual(connectedAt(500), []);
+	assert.deepEqual(connectedAt(1000), ['u1', 'u2']);
+	assert.deepEqual(connectedAt(1999), ['u1', 'u2']);
+	assert.deepEqual(connectedAt(2000), ['u1']);
+	assert.deepEqual(connectedAt(5000), ['u1']);
+});
+
+test('returns copies of states', () => {
+	const states = createStates();
+	states.handleUpdate({ type: 'player_joined', userId: 'u1', playerNumber: 0 });
+	const [u1] = states.getStates();
+	u1.sessions[0].leftAt = 'modified';
+	u1.connected = false;
+	assert.equal(states.getStates()[0].sessions[0].leftAt, null);
+	assert.equal(states.getStates()[0].connected, true);
+});
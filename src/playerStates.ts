@@ -0,0 +1,152 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module tracking the lifecycle of players in the battle.
+ */
+import type { PlayerLeftUpdate, AutohostUpdateEventData } from 'tachyon-protocol/types';
+import { ReadyState } from './engineAutohostInterface.js';
+
+export type PlayerReadyState = 'not_ready' | 'ready' | 'forced' | 'failed';
+
+/**
+ * Single continuous connection of the player to the battle.
+ */
+export interface PlayerSession {
+	joinedAt: string;
+	// Null while the player is still connected.
+	leftAt: string | null;
+	// Null also when the player joined again without leave being reported.
+	leaveReason: PlayerLeftUpdate['reason'] | null;
+}
+
+/**
+ * State of the player in the battle. All timestamps are ISO 8601 strings.
+ */
+export interface PlayerState {
+	userId: string;
+	name: string;
+	playerNumber: number;
+	spectator: boolean;
+	connected: boolean;
+	// Null until engine reports the ready state of the player.
+	ready: PlayerReadyState | null;
+	defeatedAt: string | null;
+	sessions: PlayerSession[];
+	// Number of times the player joined again after leaving.
+	reconnects: number;
+}
+
+function toReadyState(state: ReadyState): PlayerReadyState {
+	switch (state) {
+		case ReadyState.NOT_READY:
+			return 'not_ready';
+		case ReadyState.READY:
+			return 'ready';
+		case ReadyState.FORCED:
+			return 'forced';
+		case ReadyState.FAILED:
+			return 'failed';
+	}
+}
+
+/**
+ * BattlePlayerStates tracks the state of every player of a single battle from
+ * the tachyon updates generated for it and the engine ready state events.
+ */
+export class BattlePlayerStates {
+	// userId -> state.
+	private states: Map<string, PlayerState> = new Map();
+
+	addPlayer(ids: { userId: string; name: string; playerNumber: number }, spectator: boolean) {
+		this.states.set(ids.userId, {
+			...ids,
+			spectator,
+			connected: false,
+			ready: null,
+			defeatedAt: null,
+			sessions: [],
+			reconnects: 0,
+		});
+	}
+
+	removePlayer(userId: string) {
+		this.states.delete(userId);
+	}
+
+	setSpectator(userId: string) {
+		const state = this.states.get(userId);
+		if (state) state.spectator = true;
+	}
+
+	playerReady(playerNumber: number, ready: ReadyState) {
+		const state = this.getByPlayerNumber(playerNumber);
+		if (state) state.ready = toReadyState(ready);
+	}
+
+	handleUpdate(update: AutohostUpdateEventData['update']) {
+		const time = new Date().toISOString();
+		switch (update.type) {
+			case 'player_joined': {
+				const state = this.states.get(update.userId);
+				if (!state) break;
+				if (state.sessions.length > 0) {
+					state.reconnects += 1;
+				}
+				// Close the previous session if its end wasn't reported.
+				const last = state.sessions.at(-1);
+				if (last && last.leftAt === null) {
+					last.leftAt = time;
+				}
+				state.sessions.push({ joinedAt: time, leftAt: null, leaveReason: null });
+				state.connected = true;
+				break;
+			}
+			case 'player_left': {
+				const state = this.states.get(update.userId);
+				const last = state?.sessions.at(-1);
+				if (!state || !last || last.leftAt !== null) break;
+				last.leftAt = time;
+				last.leaveReason = update.reason;
+				state.connected = false;
+				break;
+			}
+			case 'player_defeated': {
+				const state = this.states.get(update.userId);
+				if (state && state.defeatedAt === null) {
+					state.defeatedAt = time;
+				}
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Get states of all players ordered by player number.
+	 *
+	 * @param connectedAt When set, only players connected at that time are
+	 *     returned.
+	 */
+	getStates(connectedAt?: Date): PlayerState[] {
+		let states = [...this.states.values()];
+		if (connectedAt) {
+			const at = connectedAt.toISOString();
+			states = states.filter((s) =>
+				s.sessions.some(
+					(ss) => ss.joinedAt <= at && (ss.leftAt === null || at < ss.leftAt),
+				),
+			);
+		}
+		return states
+			.sort((a, b) => a.playerNumber - b.playerNumber)
+			.map((s) => ({ ...s, sessions: s.sessions.map((ss) => ({ ...ss })) }));
+	}
+
+	private getByPlayerNumber(playerNumber: number): PlayerState | undefined {
+		for (const state of this.states.values()) {
+			if (state.playerNumber === playerNumber) return state;
+		}
+		return undefined;
+	}
+}
@@ -0,0 +1,46 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+	parseProcStat,
+	readProcStat,
+	parseProcResourceUsage,
+	readProcResourceUsage,
+} from './procfs.js';
+
+test('parseProcStat', () => {
+	const stat =
+		'1234 (spring (dedi) x) S 1 1234 1234 0 -1 4194560 5000 0 0 0 1520 380 0 0 20 0 12 0 100 2000000 30000 18446744073709551615';
+	assert.deepEqual(parseProcStat(stat), { state: 'S', cpuTicks: 1900 });
+	assert.throws(() => parseProcStat('1234 (x) S 1'));
+});
+
+test('parseProcResourceUsage', () => {
+	const stat = '1234 (spring) S 1 1234 1234 0 -1 4194560 5000 0 0 0 1520 380 0 0 20 0 12 0';
+	const status = 'Name:\tspring\nVmRSS:\t  204800 kB\nThreads:\t12\n';
+	const io = 'rchar: 100\nwchar: 200\nread_bytes: 4096\nwrite_bytes: 8192\n';
+	assert.deepEqual(parseProcResourceUsage(stat, status, io), {
+		cpuSeconds: 19,
+		rssBytes: 200 * 1024 * 1024,
+		threads: 12,
+		ioReadBytes: 4096,
+		ioWriteBytes: 8192,
+	});
+	assert.deepEqual(parseProcResourceUsage(stat, status, null).ioReadBytes, null);
+	assert.throws(() => parseProcResourceUsage(stat, 'Name:\tspring\n', io));
+});
+
+test('readProcStat of own process', { skip: process.platform !== 'linux' }, async () => {
+	const stat = await readProcStat(process.pid);
+	assert.ok(stat.cpuTicks >= 0);
+	assert.match(stat.state, /^[A-Za-z]$/);
+});
+
+test('readProcResourceUsage of own process', { skip: process.platform !== 'linux' }, async () => {
+	const usage = await readProcResourceUsage(process.pid);
+	assert.ok(usage.rssBytes > 0);
+	assert.ok(usage.threads >= 1);
+});
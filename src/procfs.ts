@@ -0,0 +1,125 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module reading the state of processes from the Linux /proc filesystem.
+ */
+import * as fs from 'node:fs/promises';
+
+/**
+ * Subset of the process status from /proc/<pid>/stat.
+ */
+export interface ProcStat {
+	// Single character process state, e.g. R (running), S (sleeping).
+	state: string;
+	// CPU time spent by the process in user and kernel mode, in clock ticks.
+	cpuTicks: number;
+}
+
+/**
+ * Parse the contents of /proc/<pid>/stat.
+ *
+ * @throws {Error} When the contents are malformed.
+ */
+export function parseProcStat(contents: string): ProcStat {
+	// The process name in parentheses can contain spaces and parentheses, so
+	// fields are counted from the last closing one, starting at field 3.
+	const fields = contents.slice(contents.lastIndexOf(')') + 2).split(' ');
+	const utime = parseInt(fields[11], 10);
+	const stime = parseInt(fields[12], 10);
+	if (!fields[0] || isNaN(utime) || isNaN(stime)) {
+		throw new Error('malformed /proc/<pid>/stat contents');
+	}
+	return { state: fields[0], cpuTicks: utime + stime };
+}
+
+/**
+ * Read the status of the process from /proc/<pid>/stat.
+ */
+export async function readProcStat(pid: number): Promise<ProcStat> {
+	return parseProcStat(await fs.readFile(`/proc/${pid}/stat`, 'utf-8'));
+}
+
+// Clock ticks per second used by /proc, fixed for the userspace ABI.
+const USER_HZ = 100;
+
+/**
+ * Resource usage of the process.
+ */
+export interface ProcResourceUsage {
+	// Total CPU time of the process in user and kernel mode.
+	cpuSeconds: number;
+	rssBytes: number;
+	threads: number;
+	// Bytes read from and written to storage, null when /proc/<pid>/io is not
+	// readable, e.g. due to permissions.
+	ioReadBytes: number | null;
+	ioWriteBytes: number | null;
+}
+
+// Parses "Key: value" lines of /proc files like status and io.
+function parseProcKeyValues(contents: string): Map<string, string> {
+	const values = new Map<string, string>();
+	for (const line of contents.split('\n')) {
+		const sep = line.indexOf(':');
+		if (sep > 0) values.set(line.slice(0, sep), line.slice(sep + 1).trim());
+	}
+	return values;
+}
+
+/**
+ * Parse the resource usage from the contents of /proc/<pid>/stat, status and
+ * io files.
+ *
+ * @throws {Error} When the contents are malformed.
+ */
+export function parseProcResourceUsage(
+	stat: string,
+	status: string,
+	io: string | null,
+): ProcResourceUsage {
+	const { cpuTicks } = parseProcStat(stat);
+	const statusValues = parseProcKeyValues(status);
+	// VmRSS is missing for zombie processes.
+	const rssKB = parseInt(statusValues.get('VmRSS') ?? '0', 10);
+	const threads = parseInt(statusValues.get('Threads') ?? '', 10);
+	if (isNaN(rssKB) || isNaN(threads)) {
+		throw new Error('malformed /proc/<pid>/status contents');
+	}
+	const ioValues = parseProcKeyValues(io ?? '');
+	const ioBytes = (key: string) => {
+		const value = parseInt(ioValues.get(key) ?? '', 10);
+		return isNaN(value) ? null : value;
+	};
+	return {
+		cpuSeconds: cpuTicks / USER_HZ,
+		rssBytes: rssKB * 1024,
+		threads,
+		ioReadBytes: ioBytes('read_bytes'),
+		ioWriteBytes: ioBytes('write_bytes'),
+	};
+}
+
+/**
+ * Read the resource usage of the process from /proc/<pid>.
+ */
+export async function readProcResourceUsage(pid: number): Promise<ProcResourceUsage> {
+	const [stat, status, io] = await Promise.all([
+		fs.readFile(`/proc/${pid}/stat`, 'utf-8'),
+		fs.readFile(`/proc/${pid}/status`, 'utf-8'),
+		fs.readFile(`/proc/${pid}/io`, 'utf-8').catch(() => null),
+	]);
+	return parseProcResourceUsage(stat, status, io);
+}
+
+/**
+ * Read the pids of the direct children of the process.
+ */
+export async function readProcChildren(pid: number): Promise<number[]> {
+	const children = await fs.readFile(`/proc/${pid}/task/${pid}/children`, 'utf-8');
+	return children
+		.split(' ')
+		.filter((child) => child !== '')
+		.map((child) => parseInt(child, 10));
+}
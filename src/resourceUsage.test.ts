@@ -0,0 +1,69 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResourceUsageRecorder } from './resourceUsage.js';
+
+function usage(cpuSeconds: number, rssMB: number, threads: number) {
+	return {
+		cpuSeconds,
+		rssBytes: rssMB * 1024 * 1024,
+		threads,
+		ioReadBytes: null,
+		ioWriteBytes: cpuSeconds * 10,
+	};
+}
+
+test('summarizes samples', (t) => {
+	t.mock.timers.enable({ apis: ['Date'] });
+	const recorder = new ResourceUsageRecorder();
+	assert.equal(recorder.summary(), null);
+
+	recorder.addSample(usage(10, 100, 4));
+	t.mock.timers.setTime(10_000);
+	recorder.addSample(usage(15, 300, 8));
+	t.mock.timers.setTime(20_000);
+	recorder.addSample(usage(25, 200, 6));
+
+	const samples = recorder.getSamples();
+	assert.deepEqual(
+		samples.map((s) => [s.time, s.cpuPercent]),
+		[
+			[new Date(0).toISOString(), null],
+			[new Date(10_000).toISOString(), 50],
+			[new Date(20_000).toISOString(), 100],
+		],
+	);
+	assert.deepEqual(recorder.summary(), {
+		samples: 3,
+		cpuSeconds: 25,
+		ioReadBytes: null,
+		ioWriteBytes: 250,
+		cpuPercent: { peak: 100, average: 75 },
+		rssBytes: { peak: 300 * 1024 * 1024, average: 200 * 1024 * 1024 },
+		threads: { peak: 8, average: 6 },
+	});
+});
+
+test('bounds kept samples of long battles', (t) => {
+	t.mock.timers.enable({ apis: ['Date'] });
+	const recorder = new ResourceUsageRecorder();
+	// A day of samples every second.
+	const count = 24 * 60 * 60;
+	for (let i = 0; i < count; ++i) {
+		t.mock.timers.setTime(i * 1000);
+		recorder.addSample(usage(i, i == 1000 ? 500 : 100, 4));
+	}
+
+	const samples = recorder.getSamples();
+	assert.ok(samples.length <= 1000);
+	assert.equal(samples.at(-1)?.time, new Date((count - 1) * 1000).toISOString());
+	const summary = recorder.summary()!;
+	assert.equal(summary.samples, count);
+	assert.equal(summary.cpuSeconds, count - 1);
+	assert.deepEqual(summary.cpuPercent, { peak: 100, average: 100 });
+	assert.equal(summary.rssBytes.peak, 500 * 1024 * 1024);
+	assert.deepEqual(summary.threads, { peak: 4, average: 4 });
+});
@@ -0,0 +1,122 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module aggregating the resource usage samples of the engine process.
+ */
+import type { ProcResourceUsage } from './procfs.js';
+
+export interface ResourceUsageSample extends ProcResourceUsage {
+	// ISO 8601 timestamp of the sample.
+	time: string;
+	// CPU usage since the previous sample, in percent of a single core, null
+	// for the first sample.
+	cpuPercent: number | null;
+}
+
+export interface PeakAverage {
+	peak: number;
+	average: number;
+}
+
+/**
+ * Summary of the resource usage over the whole battle.
+ */
+export interface ResourceUsageSummary {
+	samples: number;
+	// Total CPU time and I/O as of the last sample.
+	cpuSeconds: number;
+	ioReadBytes: number | null;
+	ioWriteBytes: number | null;
+	cpuPercent: PeakAverage | null;
+	rssBytes: PeakAverage;
+	threads: PeakAverage;
+}
+
+// Most samples kept for the local API. Above it, every other sample is
+// dropped, so long battles are covered at a lower resolution.
+const MAX_KEPT_SAMPLES = 1000;
+
+/**
+ * Running peak and average of a value, without keeping all the values.
+ */
+class PeakAverageAggregate {
+	private peak: number = -Infinity;
+	private sum: number = 0;
+	private count: number = 0;
+
+	add(value: number) {
+		this.peak = Math.max(this.peak, value);
+		this.sum += value;
+		this.count += 1;
+	}
+
+	get(): PeakAverage | null {
+		if (this.count === 0) return null;
+		return { peak: this.peak, average: this.sum / this.count };
+	}
+}
+
+/**
+ * ResourceUsageRecorder collects the resource usage samples of a single
+ * battle.
+ */
+export class ResourceUsageRecorder {
+	private samples: ResourceUsageSample[] = [];
+	private last: ResourceUsageSample | null = null;
+	private lastSampleAt: number = 0;
+	private count: number = 0;
+	private cpuPercent = new PeakAverageAggregate();
+	private rssBytes = new PeakAverageAggregate();
+	private threads = new PeakAverageAggregate();
+
+	addSample(usage: ProcResourceUsage) {
+		const now = Date.now();
+		const prev = this.last;
+		let cpuPercent = null;
+		if (prev && now > this.lastSampleAt) {
+			cpuPercent =
+				((usage.cpuSeconds - prev.cpuSeconds) * 100000) / (now - this.lastSampleAt);
+		}
+		const sample = { ...usage, time: new Date(now).toISOString(), cpuPercent };
+		this.last = sample;
+		this.lastSampleAt = now;
+		this.count += 1;
+		if (cpuPercent !== null) this.cpuPercent.add(cpuPercent);
+		this.rssBytes.add(usage.rssBytes);
+		this.threads.add(usage.threads);
+
+		this.samples.push(sample);
+		if (this.samples.length > MAX_KEPT_SAMPLES) {
+			const keep = (this.samples.length - 1) % 2;
+			this.samples = this.samples.filter((_, i) => i % 2 === keep);
+		}
+	}
+
+	/**
+	 * Get the kept samples, for long battles only a subset of all of them,
+	 * but always including the last one. CPU usage of every sample is since
+	 * the sample taken right before it, kept or not.
+	 */
+	getSamples(): ResourceUsageSample[] {
+		return this.samples.map((s) => ({ ...s }));
+	}
+
+	/**
+	 * @returns Summary of all the samples, or null if there are no samples.
+	 */
+	summary(): ResourceUsageSummary | null {
+		const last = this.last;
+		if (!last) return null;
+		return {
+			samples: this.count,
+			cpuSeconds: last.cpuSeconds,
+			ioReadBytes: last.ioReadBytes,
+			ioWriteBytes: last.ioWriteBytes,
+			cpuPercent: this.cpuPercent.get(),
+			rssBytes: this.rssBytes.get()!,
+			threads: this.threads.get()!,
+		};
+	}
+}
@@ -0,0 +1,123 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+import { suite, test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { pino } from 'pino';
+import { mkdtemp, mkdir, rm, readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { tmpdir } from 'node:os';
+import { chdir } from 'node:process';
+import { TypedEmitter } from 'tiny-typed-emitter';
+import { EventType, type Event, type TeamStatistics } from './engineAutohostInterface.js';
+import type { GamesManagerEvents } from './games.js';
+import { TeamStatsCollector, teamStatsToCSV } from './teamStats.js';
+
+class GamesManagerFake extends TypedEmitter<GamesManagerEvents> {}
+
+function stats(frame: number, metalProduced: number): TeamStatistics {
+	return {
+		frame,
+		metalUsed: 0,
+		energyUsed: 0,
+		metalProduced,
+		energyProduced: 0,
+		metalExcess: 0,
+		energyExcess: 0,
+		metalReceived: 0,
+		energyReceived: 0,
+		metalSent: 0,
+		energySent: 0,
+		damageDealt: 0,
+		damageReceived: 0,
+		unitsProduced: 0,
+		unitsDied: 0,
+		unitsReceived: 0,
+		unitsSent: 0,
+		unitsCaptured: 0,
+		unitsOutCaptured: 0,
+		unitsKilled: 0,
+	};
+}
+
+function teamStat(teamNumber: number, s: TeamStatistics): Event {
+	return { type: EventType.GAME_TEAMSTAT, teamNumber, stats: s };
+}
+
+suite('TeamStatsCollector', () => {
+	const origCwd = process.cwd();
+	let testDir: string;
+
+	beforeEach(async () => {
+		testDir = await mkdtemp(join(tmpdir(), 'teamstats-test-'));
+		chdir(testDir);
+	});
+
+	afterEach(async () => {
+		chdir(origCwd);
+		await rm(testDir, { recursive: true });
+	});
+
+	const env = { logger: pino({ level: 'silent' }), config: {} };
+
+	test('collects series per team sorted by frame', () => {
+		const gm = new GamesManagerFake();
+		const tc = new TeamStatsCollector(env, gm);
+		assert.equal(tc.getSeries('battle1'), undefined);
+
+		gm.emit('packet', 'battle1', teamStat(1, stats(900, 10)));
+		gm.emit('packet', 'battle1', teamStat(0, stats(1800, 20)));
+		gm.emit('packet', 'battle1', teamStat(0, stats(900, 5)));
+		gm.emit('packet', 'battle1', teamStat(0, stats(900, 6)));
+		gm.emit('packet', 'battle1', { type: EventType.SERVER_MESSAGE, message: 'ignored' });
+		gm.emit('packet', 'battle2', teamStat(0, stats(900, 1)));
+
+		assert.deepEqual(tc.getSeries('battle1'), {
+			0: [stats(900, 6), stats(1800, 20)],
+			1: [stats(900, 10)],
+		});
+		assert.deepEqual(tc.getSeries('battle2'), { 0: [stats(900, 1)] });
+	});
+
+	test('writes series next to demo on exit', async () => {
+		await mkdir('instances/battle1/demos', { recursive: true });
+		const gm = new GamesManagerFake();
+		const tc = new TeamStatsCollector(env, gm);
+		gm.emit('packet', 'battle1', teamStat(0, stats(900, 10)));
+		const writes: Promise<unknown>[] = [];
+		gm.emit(
+			'exit',
+			'battle1',
+			{
+				reason: 'quit',
+				engineVersion: 'test',
+				demoPath: resolve('instances/battle1/demos/test.sdfz'),
+				resourceUsage: null,
+			},
+			(write) => writes.push(write),
+		);
+		assert.equal(tc.getSeries('battle1'), undefined);
+
+		// The instance directory is held until the series are written.
+		assert.equal(writes.length, 1);
+		await Promise.all(writes);
+		const base = 'instances/battle1/demos/test.teamstats';
+		assert.deepEqual(JSON.parse(await readFile(`${base}.json`, 'utf-8')), {
+			0: [stats(900, 10)],
+		});
+		assert.equal(
+			await readFile(`${base}.csv`, 'utf-8'),
+			teamStatsToCSV({ 0: [stats(900, 10)] }),
+		);
+	});
+
+	test('converts to CSV', () => {
+		const csv = teamStatsToCSV({ 0: [stats(900, 10)], 1: [stats(900, 20)] }).split('\n');
+		assert.equal(csv.length, 4);
+		assert.match(csv[0], /^team,frame,metalUsed,.*,unitsKilled$/);
+		assert.equal(csv[1], '0,900,0,0,10' + ',0'.repeat(16));
+		assert.equal(csv[2], '1,900,0,0,20' + ',0'.repeat(16));
+		assert.equal(csv[3], '');
+	});
+});
@@ -0,0 +1,128 @@
+// SPDX-FileCopyrightText: 2025 The Recoil Autohost Authors
+//
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Module aggregating team statistics reported by the engine into time series.
+ */
+import fs from 'node:fs';
+import * as path from 'node:path';
+import { EventType, type TeamStatistics } from './engineAutohostInterface.js';
+import type { TypedEmitter } from 'tiny-typed-emitter';
+import type { GamesManagerEvents } from './games.js';
+import { INSTANCES_DIR } from './instances.js';
+import { Environment } from './environment.js';
+
+export type Env = Environment;
+
+// Columns of the team statistics in the order they are exported to CSV.
+const STATS_COLUMNS: (keyof TeamStatistics)[] = [
+	'frame',
+	'metalUsed',
+	'energyUsed',
+	'metalProduced',
+	'energyProduced',
+	'metalExcess',
+	'energyExcess',
+	'metalReceived',
+	'energyReceived',
+	'metalSent',
+	'energySent',
+	'damageDealt',
+	'damageReceived',
+	'unitsProduced',
+	'unitsDied',
+	'unitsReceived',
+	'unitsSent',
+	'unitsCaptured',
+	'unitsOutCaptured',
+	'unitsKilled',
+];
+
+/**
+ * Team statistics of the battle: teamNumber -> statistics sorted by frame.
+ */
+export interface TeamStatsSeries {
+	[teamNumber: number]: TeamStatistics[];
+}
+
+/**
+ * TeamStatsCollector keeps the time series of GAME_TEAMSTAT packets for every
+ * running battle, and when the battle exits, writes them as
+ * `<demo>.teamstats.json` and `<demo>.teamstats.csv` next to the demo, or as
+ * `teamstats.json` and `teamstats.csv` in the instance directory when there
+ * is no demo.
+ */
+export class TeamStatsCollector {
+	private logger: Env['logger'];
+	// battleId -> teamNumber -> frame -> stats.
+	private battles: Map<string, Map<number, Map<number, TeamStatistics>>> = new Map();
+
+	constructor(env: Env, gamesMgr: TypedEmitter<GamesManagerEvents>) {
+		this.logger = env.logger.child({ class: 'TeamStatsCollector' });
+		gamesMgr.on('packet', (battleId, ev) => {
+			if (ev.type !== EventType.GAME_TEAMSTAT) return;
+			let teams = this.battles.get(battleId);
+			if (!teams) {
+				teams = new Map();
+				this.battles.set(battleId, teams);
+			}
+			let frames = teams.get(ev.teamNumber);
+			if (!frames) {
+				frames = new Map();
+				teams.set(ev.teamNumber, frames);
+			}
+			// Engine might report the same frame again, the latest one wins.
+			frames.set(ev.stats.frame, ev.stats);
+		});
+		gamesMgr.on('exit', (battleId, { demoPath }, holdInstance) => {
+			const series = this.getSeries(battleId);
+			this.battles.delete(battleId);
+			if (!series) return;
+			holdInstance(
+				this.writeSeries(battleId, series, demoPath).catch((err) =>
+					this.logger.error({ battleId, err }, 'failed to write team statistics'),
+				),
+			);
+		});
+	}
+
+	/**
+	 * Get the team statistics collected so far for the running battle.
+	 *
+	 * @returns Series or undefined if there are no statistics for the battle.
+	 */
+	getSeries(battleId: string): TeamStatsSeries | undefined {
+		const teams = this.battles.get(battleId);
+		if (!teams) return undefined;
+		const series: TeamStatsSeries = {};
+		for (const teamNumber of [...teams.keys()].sort((a, b) => a - b)) {
+			series[teamNumber] = [...teams.get(teamNumber)!.values()].sort(
+				(a, b) => a.frame - b.frame,
+			);
+		}
+		return series;
+	}
+
+	private async writeSeries(battleId: string, series: TeamStatsSeries, demoPath: string | null) {
+		const base = demoPath
+			? `${demoPath.replace(/\.sdfz$/, '')}.teamstats`
+			: path.join(INSTANCES_DIR, battleId, 'teamstats');
+		await fs.promises.writeFile(`${base}.json`, JSON.stringify(series));
+		await fs.promises.writeFile(`${base}.csv`, teamStatsToCSV(series));
+	}
+}
+
+/**
+ * Convert the series into CSV with team number and all the statistics columns,
+ * one row per team and frame.
+ */
+export function teamStatsToCSV(series: TeamStatsSeries): string {
+	const lines = [['team', ...STATS_COLUMNS].join(',')];
+	for (const [teamNumber, stats] of Object.entries(series)) {
+		for (const s of stats as TeamStatistics[]) {
+			lines.push([teamNumber, ...STATS_COLUMNS.map((c) => s[c])].join(','));
+		}
+	}
+	return lines.join('\n') + '\n';
+}